@@ -0,0 +1,10 @@
+-- Chat state for the Supabase chat store (CHAT_STORE=supabase).
+-- Messages are rows of chat_message_log, see 004_chat_message_log.sql.
+create table if not exists bot_chats (
+  id text primary key,
+  state jsonb not null,
+  archived boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bot_chats_archived_idx on bot_chats (archived);
@@ -0,0 +1,7 @@
+-- Small key/value state for the Supabase chat store, e.g. the routing maps
+-- (agent → open chat, Telegram user → current chat, registered agents).
+create table if not exists bot_state (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
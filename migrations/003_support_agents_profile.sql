@@ -0,0 +1,9 @@
+-- Agent profiles for the agent roster. Extends the existing support_agents
+-- table (telegram_id, name, is_active, created_at, updated_at).
+alter table support_agents add column if not exists dashboard_user_id text;
+alter table support_agents add column if not exists roles text[] not null default '{agent}';
+alter table support_agents add column if not exists last_seen_at timestamptz;
+
+create unique index if not exists support_agents_dashboard_user_id_idx
+  on support_agents (dashboard_user_id)
+  where dashboard_user_id is not null;
@@ -0,0 +1,66 @@
+-- Append-only message storage: one row per message with a per-chat sequence
+-- number. Replaces read-modify-write of chat_messages.chat_history.
+create table if not exists chat_message_log (
+  id bigserial primary key,
+  chat_id text not null,
+  seq integer not null,
+  message jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (chat_id, seq)
+);
+
+-- Appends one message and returns its sequence number. The advisory lock
+-- serialises appends per chat, so two messages arriving at once both land.
+create or replace function append_chat_message(p_chat_id text, p_message jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+  next_seq integer;
+begin
+  perform pg_advisory_xact_lock(hashtext(p_chat_id));
+  select coalesce(max(seq), 0) + 1 into next_seq
+    from chat_message_log where chat_id = p_chat_id;
+  insert into chat_message_log (chat_id, seq, message)
+    values (p_chat_id, next_seq, p_message);
+  return next_seq;
+end;
+$$;
+
+-- Treats p_messages as a chat's full history starting at seq 1 and appends
+-- the messages the log does not have yet. Used by /api/chat/backfill.
+-- Returns the number of messages inserted.
+create or replace function import_chat_history(p_chat_id text, p_messages jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+  last_seq integer;
+  inserted integer;
+begin
+  perform pg_advisory_xact_lock(hashtext(p_chat_id));
+  select coalesce(max(seq), 0) into last_seq
+    from chat_message_log where chat_id = p_chat_id;
+  insert into chat_message_log (chat_id, seq, message)
+    select p_chat_id, t.ord, t.elem
+      from jsonb_array_elements(p_messages) with ordinality as t(elem, ord)
+      where t.ord > last_seq;
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+-- One-off copy of the existing chat_history arrays. Chats that already have
+-- rows in the log are skipped, so running this again is safe. Archived rows
+-- come first, in the order they were created.
+insert into chat_message_log (chat_id, seq, message, created_at)
+select
+  m.chat_id::text,
+  row_number() over (partition by m.chat_id order by m.created_at, t.ord),
+  t.elem,
+  coalesce(to_timestamp((t.elem->>'timestamp')::bigint / 1000.0), m.created_at)
+from chat_messages m,
+  jsonb_array_elements(coalesce(m.chat_history, '[]'::jsonb)) with ordinality as t(elem, ord)
+where not exists (
+  select 1 from chat_message_log l where l.chat_id = m.chat_id::text
+);
@@ -0,0 +1,16 @@
+-- Audit trail for data-subject requests (GET /api/privacy/export/:userId and
+-- DELETE /api/privacy/:userId). Rows are never updated or deleted.
+create table if not exists privacy_audit_log (
+  id bigserial primary key,
+  action text not null check (action in ('export', 'erase')),
+  subject_id text not null,
+  requested_by text,
+  requested_at timestamptz not null,
+  chat_ids text[] not null default '{}',
+  message_count integer not null default 0,
+  file_count integer not null default 0,
+  outcome text not null check (outcome in ('completed', 'failed')),
+  error text
+);
+
+create index if not exists privacy_audit_log_subject_idx on privacy_audit_log (subject_id);
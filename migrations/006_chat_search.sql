@@ -0,0 +1,59 @@
+-- Full-text search for agents (GET /api/chat/search, /search in the support
+-- bot). Words are matched whole and case-insensitively with the 'simple'
+-- configuration, so no language-specific stemming.
+
+-- Searchable chat fields: ID, customer name and organization
+create or replace function bot_chat_search_text(p_id text, p_state jsonb)
+returns text
+language sql
+immutable
+as $$
+  select concat_ws(' ',
+    p_id,
+    p_state->>'userFirstName',
+    p_state->>'userLastName',
+    p_state->>'organizationName');
+$$;
+
+create index if not exists bot_chats_search_idx on bot_chats
+  using gin (to_tsvector('simple', bot_chat_search_text(id, state)));
+
+create index if not exists chat_message_log_search_idx on chat_message_log
+  using gin (to_tsvector('simple', coalesce(message->>'text', '')));
+
+-- Chats whose fields or one of whose messages contain every word of
+-- p_query, most recent first. message is the latest matching message, or
+-- null when only the chat fields matched.
+create or replace function search_chats(p_query text, p_limit integer default 20)
+returns table (chat_id text, state jsonb, message jsonb)
+language sql
+stable
+as $$
+  with query as (
+    select plainto_tsquery('simple', p_query) as q
+  ),
+  message_hits as (
+    select distinct on (l.chat_id) l.chat_id, l.message
+    from chat_message_log l, query
+    where to_tsvector('simple', coalesce(l.message->>'text', '')) @@ query.q
+    order by l.chat_id, l.seq desc
+  ),
+  chat_hits as (
+    select c.id as chat_id
+    from bot_chats c, query
+    where to_tsvector('simple', bot_chat_search_text(c.id, c.state)) @@ query.q
+  ),
+  hits as (
+    select coalesce(m.chat_id, h.chat_id) as chat_id, m.message
+    from message_hits m
+    full join chat_hits h on h.chat_id = m.chat_id
+  )
+  select hits.chat_id, c.state, hits.message
+  from hits
+  left join bot_chats c on c.id = hits.chat_id
+  order by coalesce(
+    (c.state->>'lastActivityAt')::bigint,
+    (hits.message->>'timestamp')::bigint
+  ) desc nulls last
+  limit p_limit;
+$$;
@@ -0,0 +1,4 @@
+-- Messages carry a stable ID (message->>'id') so edits and deletes can
+-- rewrite the stored row. Messages stored before IDs existed have none.
+create index if not exists chat_message_log_message_id_idx
+  on chat_message_log (chat_id, (message->>'id'));
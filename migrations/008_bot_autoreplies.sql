@@ -0,0 +1,12 @@
+-- Auto-reply rules edited through /api/autoreplies. The server reloads them
+-- periodically (AUTOREPLY_RELOAD_SECONDS), so edits made directly in this
+-- table also take effect without a restart.
+create table if not exists bot_autoreplies (
+  id text primary key,
+  keywords text[] not null,
+  reply text not null,
+  enabled boolean not null default true,
+  priority integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
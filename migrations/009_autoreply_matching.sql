@@ -0,0 +1,6 @@
+-- Match modes and exclude keywords for auto-reply rules, see
+-- src/getAutoReplies.ts.
+alter table bot_autoreplies
+  add column if not exists match_mode text not null default 'word'
+    check (match_mode in ('word', 'regex', 'fuzzy')),
+  add column if not exists exclude_keywords text[] not null default '{}';
@@ -0,0 +1,4 @@
+-- Per-language keywords and replies for auto-reply rules, keyed by locale:
+-- {"uk": {"keywords": [...], "reply": "..."}}. See src/getAutoReplies.ts.
+alter table bot_autoreplies
+  add column if not exists translations jsonb not null default '{}';
@@ -0,0 +1,17 @@
+-- What the customer bot did with each message, for GET /api/analytics/bot
+-- (see src/botAnalytics.ts). Rows are deleted with their chat by privacy
+-- erasure.
+create table if not exists bot_decisions (
+  id bigserial primary key,
+  chat_id text not null,
+  source text not null check (source in ('web', 'telegram')),
+  outcome text not null
+    check (outcome in ('rule', 'flow', 'human_request', 'fallback', 'handoff')),
+  rule_id text,
+  flow_id text,
+  locale text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bot_decisions_created_at_idx on bot_decisions (created_at);
+create index if not exists bot_decisions_chat_id_idx on bot_decisions (chat_id);
@@ -0,0 +1,10 @@
+-- Bot answers from knowledge base articles (see src/knowledgeBase.ts) are
+-- recorded as 'knowledge' decisions with the article they came from.
+alter table bot_decisions
+  add column if not exists article_id text;
+
+alter table bot_decisions
+  drop constraint if exists bot_decisions_outcome_check;
+alter table bot_decisions
+  add constraint bot_decisions_outcome_check
+  check (outcome in ('rule', 'flow', 'knowledge', 'human_request', 'fallback', 'handoff'));
@@ -0,0 +1,4 @@
+-- Why the bot handed a chat to agents, for 'handoff' decisions (see
+-- src/handoff.ts). Empty for takeovers by agents.
+alter table bot_decisions
+  add column if not exists reason text;
@@ -0,0 +1,7 @@
+-- Bot answers written by the AI tier (see src/aiReply.ts) are recorded as
+-- 'ai' decisions.
+alter table bot_decisions
+  drop constraint if exists bot_decisions_outcome_check;
+alter table bot_decisions
+  add constraint bot_decisions_outcome_check
+  check (outcome in ('rule', 'flow', 'knowledge', 'ai', 'human_request', 'fallback', 'handoff'));
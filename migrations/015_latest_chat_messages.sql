@@ -0,0 +1,23 @@
+-- The latest p_limit messages of each chat in p_chat_ids, read from the
+-- (chat_id, seq) index one chat at a time. Used at startup and when an
+-- evicted chat is fetched, so memory only ever holds the messages it keeps
+-- (CHAT_MEMORY_MAX_MESSAGES). The IDs travel in the request body, not the
+-- URL.
+create or replace function load_latest_chat_messages(
+  p_chat_ids text[],
+  p_limit integer
+)
+returns table (chat_id text, seq integer, message jsonb)
+language sql
+stable
+as $$
+  select l.chat_id, l.seq, l.message
+  from unnest(p_chat_ids) as c(id)
+  cross join lateral (
+    select m.chat_id, m.seq, m.message
+    from chat_message_log m
+    where m.chat_id = c.id
+    order by m.seq desc
+    limit p_limit
+  ) l;
+$$;
@@ -0,0 +1,170 @@
+// agentRoster.ts
+// Support agents known to the server, keyed by Telegram ID. Agents join the
+// roster with /start in the support bot or through the /api/agents routes.
+import type { ChatStore } from './store/chatStore.js';
+import type { Agent, AgentRole } from './types.js';
+
+export const AGENT_ROLES: AgentRole[] = ['agent', 'lead', 'admin'];
+
+// lastSeenAt changes on every agent message; persist it at most this often
+const LAST_SEEN_SAVE_INTERVAL_MS = 60 * 1000;
+
+export type AgentUpdate = Partial<
+  Pick<Agent, 'displayName' | 'dashboardUserId' | 'roles' | 'active'>
+>;
+
+export interface AgentRoster {
+  load(): Promise<void>;
+  get(telegramId: number): Agent | undefined;
+  findByDashboardUserId(dashboardUserId: string): Agent | undefined;
+  list(): Agent[];
+  /** Agents that should receive chat notifications. */
+  active(): Agent[];
+  /** Adds an agent, or reactivates and renames an existing one. */
+  register(telegramId: number, displayName: string): Agent;
+  update(telegramId: number, changes: AgentUpdate): Agent | undefined;
+  remove(telegramId: number): boolean;
+  /** Records agent activity. */
+  touch(telegramId: number): void;
+  /**
+   * Resolves a chat's agentId, which is a Telegram ID when taken over from
+   * the support bot and a dashboard user ID when taken over from the
+   * dashboard, to the agent's Telegram ID.
+   */
+  resolveTelegramId(agentId: string | undefined): number | undefined;
+}
+
+export function createAgentRoster(store: ChatStore): AgentRoster {
+  const agents = new Map<number, Agent>();
+  const lastSaved = new Map<number, number>();
+
+  function save(agent: Agent) {
+    lastSaved.set(agent.telegramId, Date.now());
+    store.saveAgent(agent);
+  }
+
+  const roster: AgentRoster = {
+    async load() {
+      for (const agent of await store.loadAgents()) {
+        agents.set(agent.telegramId, agent);
+      }
+      console.log(`👥 Loaded ${agents.size} agents from ${store.kind} store`);
+    },
+
+    get: (telegramId) => agents.get(telegramId),
+
+    findByDashboardUserId(dashboardUserId) {
+      for (const agent of agents.values()) {
+        if (agent.dashboardUserId === dashboardUserId) return agent;
+      }
+      return undefined;
+    },
+
+    list: () => Array.from(agents.values()),
+    active: () => Array.from(agents.values()).filter((agent) => agent.active),
+
+    register(telegramId, displayName) {
+      const now = Date.now();
+      const existing = agents.get(telegramId);
+      const agent: Agent = existing
+        ? { ...existing, displayName, active: true, lastSeenAt: now }
+        : {
+            telegramId,
+            displayName,
+            roles: ['agent'],
+            active: true,
+            createdAt: now,
+            lastSeenAt: now,
+          };
+      agents.set(telegramId, agent);
+      save(agent);
+      return agent;
+    },
+
+    update(telegramId, changes) {
+      const existing = agents.get(telegramId);
+      if (!existing) return undefined;
+      const agent: Agent = { ...existing, ...changes };
+      agents.set(telegramId, agent);
+      save(agent);
+      return agent;
+    },
+
+    remove(telegramId) {
+      if (!agents.delete(telegramId)) return false;
+      lastSaved.delete(telegramId);
+      store.deleteAgent(telegramId);
+      return true;
+    },
+
+    touch(telegramId) {
+      const agent = agents.get(telegramId);
+      if (!agent) return;
+      agent.lastSeenAt = Date.now();
+      const saved = lastSaved.get(telegramId) || 0;
+      if (agent.lastSeenAt - saved >= LAST_SEEN_SAVE_INTERVAL_MS) {
+        save(agent);
+      }
+    },
+
+    resolveTelegramId(agentId) {
+      if (!agentId) return undefined;
+      const agent = roster.findByDashboardUserId(agentId);
+      if (agent) return agent.telegramId;
+      return /^\d+$/.test(agentId) ? Number(agentId) : undefined;
+    },
+  };
+
+  return roster;
+}
+
+// Validates the editable agent fields of an /api/agents request body. Roles
+// and the dashboard login decide what a caller may do, so only admins set
+// them.
+export function parseAgentUpdate(
+  body: any,
+  caller: Agent
+): { changes: AgentUpdate } | { error: string } {
+  const changes: AgentUpdate = {};
+
+  if (
+    (body.roles !== undefined || body.dashboardUserId !== undefined) &&
+    !caller.roles.includes('admin')
+  ) {
+    return { error: 'Only admins can change roles or dashboardUserId' };
+  }
+
+  if (body.displayName !== undefined) {
+    if (typeof body.displayName !== 'string' || !body.displayName.trim()) {
+      return { error: 'displayName must be a non-empty string' };
+    }
+    changes.displayName = body.displayName.trim();
+  }
+
+  if (body.dashboardUserId !== undefined) {
+    if (body.dashboardUserId !== null && typeof body.dashboardUserId !== 'string') {
+      return { error: 'dashboardUserId must be a string or null' };
+    }
+    changes.dashboardUserId = body.dashboardUserId || undefined;
+  }
+
+  if (body.roles !== undefined) {
+    if (
+      !Array.isArray(body.roles) ||
+      body.roles.length === 0 ||
+      !body.roles.every((role: any) => AGENT_ROLES.includes(role))
+    ) {
+      return { error: `roles must be a non-empty list of: ${AGENT_ROLES.join(', ')}` };
+    }
+    changes.roles = body.roles;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'active must be a boolean' };
+    }
+    changes.active = body.active;
+  }
+
+  return { changes };
+}
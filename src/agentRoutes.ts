@@ -0,0 +1,92 @@
+// agentRoutes.ts
+// The /api/agents routes. The roster decides who passes dashboardAuth, so
+// only admins may read or change it; otherwise anyone with a Supabase login
+// could add themselves as an admin.
+import express from 'express';
+import { parseAgentUpdate, type AgentRoster } from './agentRoster.js';
+import { describeAgent, type DashboardAuth } from './dashboardAuth.js';
+
+export function createAgentRouter(
+  roster: AgentRoster,
+  auth: DashboardAuth,
+  onRemove: (telegramId: number) => void
+): express.Router {
+  const router = express.Router();
+  router.use(auth.requireRole('admin'));
+
+  // List all agents
+  router.get('/', (req, res) => {
+    res.json({ agents: roster.list() });
+  });
+
+  // Get one agent by Telegram ID
+  router.get('/:telegramId', (req, res) => {
+    const agent = roster.get(Number(req.params.telegramId));
+    if (!agent) {
+      res.status(404).json({ error: 'Agent not found' });
+      return;
+    }
+    res.json({ agent });
+  });
+
+  // Add an agent (or update an existing one) without going through /start
+  router.post('/', (req, res) => {
+    const telegramId = Number(req.body.telegramId);
+    if (!Number.isInteger(telegramId) || telegramId <= 0) {
+      res.status(400).json({ error: 'Missing or invalid telegramId' });
+      return;
+    }
+    if (!req.body.displayName) {
+      res.status(400).json({ error: 'Missing displayName' });
+      return;
+    }
+
+    const parsed = parseAgentUpdate(req.body, res.locals.agent);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const created = !roster.get(telegramId);
+    roster.register(telegramId, parsed.changes.displayName!);
+    const agent = roster.update(telegramId, parsed.changes);
+
+    console.log(
+      `👥 Agent ${agent?.displayName} (${telegramId}) saved by ${describeAgent(res.locals.agent)}`
+    );
+    res.status(created ? 201 : 200).json({ agent });
+  });
+
+  // Update an agent's profile
+  router.patch('/:telegramId', (req, res) => {
+    const parsed = parseAgentUpdate(req.body, res.locals.agent);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const agent = roster.update(Number(req.params.telegramId), parsed.changes);
+    if (!agent) {
+      res.status(404).json({ error: 'Agent not found' });
+      return;
+    }
+    res.json({ agent });
+  });
+
+  // Remove an agent from the roster
+  router.delete('/:telegramId', (req, res) => {
+    const telegramId = Number(req.params.telegramId);
+    if (!roster.remove(telegramId)) {
+      res.status(404).json({ error: 'Agent not found' });
+      return;
+    }
+    onRemove(telegramId);
+
+    console.log(
+      `👥 Agent ${telegramId} removed by ${describeAgent(res.locals.agent)}`
+    );
+    res.json({ ok: true });
+  });
+
+  return router;
+}
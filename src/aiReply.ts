@@ -1,50 +1,188 @@
-import OpenAI from "openai";
-import dotenv from "dotenv";
+// aiReply.ts
+// Generated answers for the customer bot's AI tier, tried after auto-replies
+// and the knowledge base (see handleBotReply in server.ts). The chat's latest
+// messages go to the model as the conversation, so follow-up questions make
+// sense to it. The model answers only from the numbered sources it is given
+// (see aiSources.ts) and cites them, or says it cannot answer. Which model
+// answers is up to the provider, see llm/llmProvider.ts. The same model
+// drafts replies for agents and sums chats up for them, see
+// getSuggestedReply and getChatSummary.
+import type { AISource } from "./aiSources.js";
+import type { LLMMessage, LLMProvider } from "./llm/llmProvider.js";
+import type { Locale, Message } from "./types.js";
 
-// Ensure environment variables are loaded
-dotenv.config();
+// What the model says when the sources do not answer the question
+const NO_ANSWER = "NO_ANSWER";
+const CITATION = /\[(\d+)\]/g;
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const SYSTEM_PROMPT = `You are a helpful support assistant for a customer service platform. Be concise and friendly. Answer only with facts from the numbered sources below, and cite every source you use as [1], [2] and so on. Never guess prices, plans or policies. If the sources do not answer the question, reply with ${NO_ANSWER} and nothing else.`;
 
-if (!OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY in environment variables");
+const SUGGESTION_PROMPT = "You draft replies for a support agent of a customer service platform. Write the agent's next message to the customer: concise, friendly and in the agent's voice. Take facts only from the numbered sources below, if there are any. Never guess prices, plans or policies; write [placeholder] for anything the agent has to fill in. Reply with the message text only.";
+
+const SUMMARY_PROMPT = `Summarize this support chat for an agent who is about to take it over. Use only what is in the chat. Reply in English with exactly three short lines:
+Problem: what the customer needs
+Bot answered: what the bot already told them, or "nothing yet"
+Mood: how the customer feels (calm, confused, frustrated...) and why`;
+// Longest message text put in a summary transcript
+const SUMMARY_MESSAGE_LENGTH = 500;
+
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: "English",
+  uk: "Ukrainian",
+  pl: "Polish",
+};
+
+/** Customer messages as the user, bot and agent messages as the assistant. */
+export function toConversation(history: Message[]): LLMMessage[] {
+  return history
+    .filter((message) => message.from !== "system" && !message.deletedAt)
+    .filter((message) => message.text.trim() || message.fileName)
+    .map((message) => ({
+      role: message.from === "user" ? "user" : "assistant",
+      content: message.text.trim() || `[File: ${message.fileName}]`,
+    }));
+}
+
+export type AIReply =
+  | { text: string; sources: AISource[] } // Sources the answer cites
+  | { declined: true }; // The sources do not answer the question
+
+function sourceList(sources: AISource[]) {
+  return sources
+    .map((source, i) => `[${i + 1}] ${source.title}\n${source.text}`)
+    .join("\n\n");
+}
+
+function withoutCitations(text: string) {
+  return text
+    .replace(CITATION, "")
+    .replace(/[ \t]+([.,!?;:])/g, "$1")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+// The answer without its citation marks, and the sources it cited. An answer
+// that cites nothing is not trusted.
+function parseAnswer(reply: string, sources: AISource[]): AIReply {
+  if (!reply || reply.includes(NO_ANSWER)) return { declined: true };
+  const cited = new Set<AISource>();
+  for (const [, number] of reply.matchAll(CITATION)) {
+    const source = sources[Number(number) - 1];
+    if (source) cited.add(source);
+  }
+  if (cited.size === 0) return { declined: true };
+  return { text: withoutCitations(reply), sources: Array.from(cited) };
+}
+
+function logProviderError(provider: LLMProvider, err: any) {
+  // Quota and rate limits are worth telling apart in the logs
+  const code = err?.error?.code || err?.code;
+  console.error(
+    `❌ ${provider.kind} error${code ? ` (${code})` : ""}:`,
+    err?.message || err
+  );
 }
 
-const client = new OpenAI({ apiKey: OPENAI_API_KEY });
+/**
+ * The model's answer to the conversation, which should end with the
+ * customer's message, from the sources. Null when the provider fails, so
+ * the caller can fall back.
+ */
+export async function getAIReply(
+  provider: LLMProvider,
+  history: Message[],
+  locale: Locale | undefined,
+  sources: AISource[]
+): Promise<AIReply | null> {
+  const conversation = toConversation(history);
+  if (conversation.length === 0) return null;
+  if (sources.length === 0) return { declined: true };
 
-export async function getAIReply(userMessage: string): Promise<string> {
+  const language = LANGUAGE_NAMES[locale || "en"];
   try {
-    const response = await client.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        { 
-          role: "system", 
-          content: "You are a helpful support assistant for a customer service platform. Be concise, friendly, and helpful. If you can't answer something, suggest contacting a human agent." 
-        },
-        { role: "user", content: userMessage }
-      ],
-      max_tokens: 150,
-      temperature: 0.7
-    });
-
-    const aiResponse = response.choices[0]?.message?.content?.trim();
-    
-    if (!aiResponse) {
-      return "🤖 Sorry, I don't have an answer right now. Would you like to speak with a human agent?";
-    }
-    
-    return aiResponse;
-    
-  } catch (err: any) {
-    console.error("❌ OpenAI API error:", err);
-    
-    // Handle specific OpenAI errors
-    if (err?.error?.code === 'insufficient_quota') {
-      return "🤖 I'm temporarily unavailable due to quota limits. Please contact a human agent for assistance.";
-    } else if (err?.error?.code === 'rate_limit_exceeded') {
-      return "🤖 I'm receiving too many requests. Please wait a moment or contact a human agent.";
-    }
-    
-    return "🤖 Sorry, I couldn't process your request at the moment. Would you like to speak with a human agent?";
+    const reply = await provider.complete([
+      {
+        role: "system",
+        content: `${SYSTEM_PROMPT} Answer in ${language}.\n\nSources:\n\n${sourceList(sources)}`,
+      },
+      ...conversation,
+    ]);
+    return parseAnswer(reply.trim(), sources);
+  } catch (err) {
+    logProviderError(provider, err);
+    return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A draft of the agent's next message in the conversation, using the
+ * sources for facts. Null when the provider fails.
+ */
+export async function getSuggestedReply(
+  provider: LLMProvider,
+  history: Message[],
+  locale: Locale | undefined,
+  sources: AISource[] = []
+): Promise<string | null> {
+  const conversation = toConversation(history);
+  if (conversation.length === 0) return null;
+
+  const language = LANGUAGE_NAMES[locale || "en"];
+  const sourceText = sources.length
+    ? `\n\nSources:\n\n${sourceList(sources)}`
+    : "";
+  try {
+    const reply = await provider.complete([
+      {
+        role: "system",
+        content: `${SUGGESTION_PROMPT} Write in ${language}.${sourceText}`,
+      },
+      ...conversation,
+    ]);
+    return withoutCitations(reply) || null;
+  } catch (err) {
+    logProviderError(provider, err);
+    return null;
+  }
+}
+
+// The chat as a transcript, for the model to read rather than continue
+function transcript(history: Message[]) {
+  return history
+    .filter((message) => message.from !== "system" && !message.deletedAt)
+    .filter((message) => message.text.trim() || message.fileName)
+    .map((message) => {
+      const author =
+        message.from === "user"
+          ? "Customer"
+          : message.from === "agent"
+            ? `Agent ${message.agentName || ""}`.trim()
+            : "Bot";
+      const text = message.text.trim() || `[File: ${message.fileName}]`;
+      return `${author}: ${text.slice(0, SUMMARY_MESSAGE_LENGTH)}`;
+    })
+    .join("\n");
+}
+
+/**
+ * A three-line summary of the chat for an agent taking it over: the
+ * customer's problem, what the bot answered and the customer's mood. Null
+ * when the provider fails.
+ */
+export async function getChatSummary(
+  provider: LLMProvider,
+  history: Message[]
+): Promise<string | null> {
+  const text = transcript(history);
+  if (!text) return null;
+  try {
+    const reply = await provider.complete([
+      { role: "system", content: SUMMARY_PROMPT },
+      { role: "user", content: text },
+    ]);
+    return reply.trim() || null;
+  } catch (err) {
+    logProviderError(provider, err);
+    return null;
+  }
+}
@@ -0,0 +1,145 @@
+// aiSources.ts
+// What the AI tier may answer from: the auto-reply texts, the knowledge base
+// articles and the customer's own plan. Rules and articles are searched for
+// the question like the knowledge base is; the customer's plan is added to
+// whatever is found. The sources are numbered in the prompt so the model can
+// cite them, see aiReply.ts.
+import {
+  createKnowledgeBase,
+  type KnowledgeArticle,
+  type KnowledgeBase,
+} from './knowledgeBase.js';
+import { DEFAULT_LOCALE } from './language.js';
+import type {
+  AISourceRef,
+  AutoReplyRule,
+  CustomerAccount,
+  Locale,
+} from './types.js';
+
+// Longest article text given to the model
+const MAX_SOURCE_LENGTH = 2000;
+const TITLE_KEYWORDS = 3;
+
+export interface AISource extends AISourceRef {
+  text: string; // Rule replies may still have {{variables}}
+}
+
+export interface AISourceOptions {
+  minConfidence: number; // 0-1, as for knowledge base matches
+  limit: number;
+}
+
+// The rules as searchable articles, rebuilt when a rule changes
+let ruleIndex: { key: string; knowledgeBase: KnowledgeBase } | undefined;
+
+function ruleText(rule: AutoReplyRule, locale: Locale) {
+  const translation = rule.translations?.[locale];
+  return translation ?? { keywords: rule.keywords, reply: rule.reply };
+}
+
+function ruleArticles(rules: AutoReplyRule[]): KnowledgeArticle[] {
+  return rules.flatMap((rule) => {
+    const locales = [
+      DEFAULT_LOCALE,
+      ...(Object.keys(rule.translations || {}) as Locale[]),
+    ];
+    return Array.from(new Set(locales)).map((locale) => {
+      const { keywords, reply } = ruleText(rule, locale);
+      return {
+        id: rule.id,
+        title: keywords.slice(0, TITLE_KEYWORDS).join(', '),
+        // Rules without a translation answer every language in English
+        language: rule.translations?.[locale] ? locale : undefined,
+        body: `${keywords.join(', ')}\n\n${reply}`,
+      };
+    });
+  });
+}
+
+function ruleKnowledgeBase(rules: AutoReplyRule[]) {
+  const key = rules.map((rule) => `${rule.id}:${rule.updatedAt}`).join(',');
+  if (ruleIndex?.key !== key) {
+    ruleIndex = { key, knowledgeBase: createKnowledgeBase(ruleArticles(rules)) };
+  }
+  return ruleIndex.knowledgeBase;
+}
+
+function clip(text: string) {
+  return text.length > MAX_SOURCE_LENGTH
+    ? `${text.slice(0, MAX_SOURCE_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Enabled rules and articles that match the question, best first. Empty
+ * when nothing is relevant enough to answer from.
+ */
+export function findAISources(
+  text: string,
+  locale: Locale | undefined,
+  rules: AutoReplyRule[],
+  knowledgeBase: KnowledgeBase,
+  options: AISourceOptions
+): AISource[] {
+  const enabled = rules.filter((rule) => rule.enabled);
+  const ruleMatches = ruleKnowledgeBase(enabled)
+    .search(text, locale, options.limit)
+    .map((match) => {
+      const rule = enabled.find(({ id }) => id === match.articleId)!;
+      const { keywords, reply } = ruleText(rule, locale || DEFAULT_LOCALE);
+      const source: AISource = {
+        kind: 'rule',
+        id: rule.id,
+        title: `Auto-reply: ${keywords.slice(0, TITLE_KEYWORDS).join(', ')}`,
+        text: reply,
+      };
+      return { source, confidence: match.confidence };
+    });
+
+  const articleMatches = knowledgeBase
+    .search(text, locale, options.limit)
+    .map((match) => {
+      const article = knowledgeBase
+        .articles()
+        .find(({ id }) => id === match.articleId);
+      const source: AISource = {
+        kind: 'article',
+        id: match.articleId,
+        title: match.title,
+        url: match.url,
+        text: clip(article?.body ?? match.excerpt),
+      };
+      return { source, confidence: match.confidence };
+    });
+
+  return [...ruleMatches, ...articleMatches]
+    .filter((match) => match.confidence >= options.minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, options.limit)
+    .map((match) => match.source);
+}
+
+/** The customer's organization and subscription, if any of it is known. */
+export function accountSource(
+  account: CustomerAccount
+): AISource | undefined {
+  const lines = [
+    account.organizationName && `Organization: ${account.organizationName}`,
+    account.plan && `Plan: ${account.plan}`,
+    account.subscriptionStatus &&
+      `Subscription status: ${account.subscriptionStatus}`,
+  ].filter(Boolean);
+  if (lines.length === 0) return undefined;
+  return {
+    kind: 'account',
+    id: 'account',
+    title: "Customer's subscription",
+    text: lines.join('\n'),
+  };
+}
+
+/** What is kept on the message, without the text. */
+export function aiSourceRef({ kind, id, title, url }: AISource): AISourceRef {
+  return url ? { kind, id, title, url } : { kind, id, title };
+}
@@ -0,0 +1,307 @@
+// autoReplyRules.ts
+// Auto-reply rules that support leads edit through /api/autoreplies. Rules
+// live in the chat store; every change, and every periodic reload, hands the
+// enabled ones to getAutoReply, so edits apply without a restart.
+import { randomUUID } from 'crypto';
+import type { ChatStore } from './store/chatStore.js';
+import type { AutoReplyMatchMode, AutoReplyRule, Locale } from './types.js';
+import { autoReplies } from './autoreplies.js';
+import { checkRegexKeyword, setAutoReplies } from './getAutoReplies.js';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from './language.js';
+import { checkReplyTemplate } from './replyTemplates.js';
+
+const MATCH_MODES: AutoReplyMatchMode[] = ['word', 'regex', 'fuzzy'];
+const MAX_KEYWORDS = 50;
+const MAX_KEYWORD_LENGTH = 200;
+const MAX_REPLY_LENGTH = 4096; // Telegram message limit
+// A rule's own keywords and reply are in the default locale
+const TRANSLATION_LOCALES = SUPPORTED_LOCALES.filter(
+  (locale) => locale !== DEFAULT_LOCALE
+);
+
+export type AutoReplyInput = Partial<
+  Pick<
+    AutoReplyRule,
+    | 'keywords'
+    | 'excludeKeywords'
+    | 'mode'
+    | 'reply'
+    | 'translations'
+    | 'enabled'
+    | 'priority'
+  >
+>;
+
+export interface AutoReplyRules {
+  /** Loads the rules. An empty store is seeded with the built-in replies. */
+  load(): Promise<void>;
+  /** Loads the rules again to pick up edits made directly in the store. */
+  reload(): Promise<void>;
+  /** All rules in the order they are checked. */
+  list(): AutoReplyRule[];
+  get(id: string): AutoReplyRule | undefined;
+  create(
+    input: AutoReplyInput & Pick<AutoReplyRule, 'keywords' | 'reply'>
+  ): AutoReplyRule;
+  update(id: string, changes: AutoReplyInput): AutoReplyRule | undefined;
+  remove(id: string): boolean;
+}
+
+// Higher priority first, then oldest first
+function byMatchOrder(a: AutoReplyRule, b: AutoReplyRule) {
+  return b.priority - a.priority || a.createdAt - b.createdAt;
+}
+
+export function createAutoReplyRules(store: ChatStore): AutoReplyRules {
+  let rules = new Map<string, AutoReplyRule>();
+  // Bumped on every local change so a reload that started before it is dropped
+  let version = 0;
+
+  function apply() {
+    setAutoReplies(
+      Array.from(rules.values())
+        .filter((rule) => rule.enabled)
+        .sort(byMatchOrder)
+    );
+  }
+
+  function changed(rule?: AutoReplyRule) {
+    version++;
+    if (rule) store.saveAutoReply(rule);
+    apply();
+  }
+
+  return {
+    async load() {
+      const loaded = await store.loadAutoReplies();
+      rules = new Map(loaded.map((rule) => [rule.id, rule]));
+
+      if (rules.size === 0) {
+        const now = Date.now();
+        autoReplies.forEach(({ keywords, reply, translations }, index) => {
+          const rule: AutoReplyRule = {
+            id: `default-${index + 1}`,
+            keywords,
+            reply,
+            translations,
+            enabled: true,
+            priority: 0,
+            createdAt: now + index, // Keeps the built-in order
+            updatedAt: now,
+          };
+          rules.set(rule.id, rule);
+          store.saveAutoReply(rule);
+        });
+        console.log(`💬 Seeded ${rules.size} built-in auto-replies`);
+      }
+
+      apply();
+      console.log(
+        `💬 Loaded ${rules.size} auto-replies from ${store.kind} store`
+      );
+    },
+
+    async reload() {
+      // The memory store keeps no rules; the ones here are the only copy
+      if (store.kind === 'memory') return;
+      const startedAt = version;
+      const loaded = await store.loadAutoReplies();
+      if (version !== startedAt) return;
+      rules = new Map(loaded.map((rule) => [rule.id, rule]));
+      apply();
+    },
+
+    list: () => Array.from(rules.values()).sort(byMatchOrder),
+    get: (id) => rules.get(id),
+
+    create(input) {
+      const now = Date.now();
+      const rule: AutoReplyRule = {
+        id: randomUUID(),
+        keywords: input.keywords,
+        excludeKeywords: input.excludeKeywords || [],
+        mode: input.mode || 'word',
+        reply: input.reply,
+        translations: input.translations || {},
+        enabled: input.enabled ?? true,
+        priority: input.priority ?? 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      rules.set(rule.id, rule);
+      changed(rule);
+      return rule;
+    },
+
+    update(id, changes) {
+      const existing = rules.get(id);
+      if (!existing) return undefined;
+      const rule: AutoReplyRule = {
+        ...existing,
+        ...changes,
+        updatedAt: Date.now(),
+      };
+      rules.set(id, rule);
+      changed(rule);
+      return rule;
+    },
+
+    remove(id) {
+      if (!rules.delete(id)) return false;
+      store.deleteAutoReply(id);
+      changed();
+      return true;
+    },
+  };
+}
+
+/** Reloads the rules periodically. Returns the timer. */
+export function startAutoReplyReloader(
+  rules: AutoReplyRules,
+  intervalMs: number
+): NodeJS.Timeout {
+  return setInterval(() => {
+    rules.reload().catch((error) => {
+      console.error('❌ Failed to reload auto-replies:', error);
+    });
+  }, intervalMs);
+}
+
+function isReply(value: any) {
+  return (
+    typeof value === 'string' &&
+    value.trim() !== '' &&
+    value.length <= MAX_REPLY_LENGTH
+  );
+}
+
+function isKeywordList(value: any, allowEmpty: boolean) {
+  return (
+    Array.isArray(value) &&
+    (allowEmpty || value.length > 0) &&
+    value.length <= MAX_KEYWORDS &&
+    value.every(
+      (kw: any) =>
+        typeof kw === 'string' && kw.trim() && kw.length <= MAX_KEYWORD_LENGTH
+    )
+  );
+}
+
+// Validates the fields of an /api/autoreplies request body. Without an
+// existing rule, keywords and reply must be present (new rules).
+export function parseAutoReplyInput(
+  body: any,
+  existing?: AutoReplyRule
+): { input: AutoReplyInput } | { error: string } {
+  const input: AutoReplyInput = {};
+  const requireAll = !existing;
+
+  if (body.mode !== undefined) {
+    if (!MATCH_MODES.includes(body.mode)) {
+      return { error: `mode must be one of: ${MATCH_MODES.join(', ')}` };
+    }
+    input.mode = body.mode;
+  }
+  const isRegex = (input.mode || existing?.mode) === 'regex';
+
+  for (const field of ['keywords', 'excludeKeywords'] as const) {
+    if (body[field] === undefined && (field !== 'keywords' || !requireAll)) {
+      continue;
+    }
+    if (!isKeywordList(body[field], field === 'excludeKeywords')) {
+      return {
+        error: `${field} must be a list of ${field === 'keywords' ? 1 : 0} to ${MAX_KEYWORDS} non-empty strings of at most ${MAX_KEYWORD_LENGTH} characters`,
+      };
+    }
+    input[field] = body[field].map((kw: string) => (isRegex ? kw : kw.trim()));
+  }
+
+  // Replaces all translations; {} removes them
+  if (body.translations !== undefined) {
+    const translations = body.translations;
+    if (
+      !translations ||
+      typeof translations !== 'object' ||
+      Array.isArray(translations)
+    ) {
+      return { error: 'translations must be an object keyed by locale' };
+    }
+    input.translations = {};
+    for (const [locale, translation] of Object.entries<any>(translations)) {
+      if (!TRANSLATION_LOCALES.includes(locale as Locale)) {
+        return {
+          error: `translations can only be given for: ${TRANSLATION_LOCALES.join(', ')}`,
+        };
+      }
+      if (
+        !translation ||
+        !isKeywordList(translation.keywords, true) ||
+        !isReply(translation.reply)
+      ) {
+        return {
+          error: `translations.${locale} must have keywords (0 to ${MAX_KEYWORDS} non-empty strings of at most ${MAX_KEYWORD_LENGTH} characters) and a reply (at most ${MAX_REPLY_LENGTH} characters)`,
+        };
+      }
+      const templateError = checkReplyTemplate(translation.reply);
+      if (templateError) {
+        return { error: `translations.${locale}.reply: ${templateError}` };
+      }
+      input.translations[locale as Locale] = {
+        keywords: translation.keywords.map((kw: string) =>
+          isRegex ? kw : kw.trim()
+        ),
+        reply: translation.reply,
+      };
+    }
+  }
+
+  // A rule switched to regex keeps keywords that may not be valid patterns
+  if (isRegex) {
+    const translations = input.translations || existing?.translations || {};
+    const keywordLists: [string, string[]][] = [
+      ['keywords', input.keywords || existing?.keywords || []],
+      ['excludeKeywords', input.excludeKeywords || existing?.excludeKeywords || []],
+    ];
+    for (const [locale, translation] of Object.entries(translations)) {
+      keywordLists.push([`translations.${locale}`, translation?.keywords || []]);
+    }
+    for (const [field, keywords] of keywordLists) {
+      for (const kw of keywords) {
+        try {
+          checkRegexKeyword(kw);
+        } catch (error) {
+          return {
+            error: `Invalid regular expression in ${field} (${(error as Error).message}): ${kw}`,
+          };
+        }
+      }
+    }
+  }
+
+  if (body.reply !== undefined || requireAll) {
+    if (!isReply(body.reply)) {
+      return {
+        error: `reply must be a non-empty string of at most ${MAX_REPLY_LENGTH} characters`,
+      };
+    }
+    const templateError = checkReplyTemplate(body.reply);
+    if (templateError) return { error: `reply: ${templateError}` };
+    input.reply = body.reply;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' };
+    }
+    input.enabled = body.enabled;
+  }
+
+  if (body.priority !== undefined) {
+    if (!Number.isInteger(body.priority)) {
+      return { error: 'priority must be an integer' };
+    }
+    input.priority = body.priority;
+  }
+
+  return { input };
+}
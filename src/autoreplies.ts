@@ -1,29 +1,80 @@
 // autoReplies.ts
+// Built-in auto-replies. They seed the rule store on first start; after that
+// rules are edited through /api/autoreplies (see autoReplyRules.ts). Replies
+// can use {{variables}}, see replyTemplates.ts.
+import type { AutoReplyRule } from "./types.js";
 
-interface AutoReply {
-  keywords: string[];
-  reply: string;
-}
+export type AutoReply = Pick<AutoReplyRule, "keywords" | "reply" | "translations">;
 
 export const autoReplies: AutoReply[] = [
   {
     keywords: ["hello", "hi", "hey"],
-    reply: "👋 Hi there! I’m your virtual assistant. How can I help today?",
+    reply: "👋 Hi {{firstName|there}}! I’m your virtual assistant. How can I help today?",
+    translations: {
+      uk: {
+        keywords: ["привіт", "вітаю", "добрий день"],
+        reply: "👋 Привіт{{#firstName}}, {{firstName}}{{/firstName}}! Я ваш віртуальний помічник. Чим можу допомогти?",
+      },
+      pl: {
+        keywords: ["cześć", "witam", "dzień dobry"],
+        reply: "👋 Cześć{{#firstName}}, {{firstName}}{{/firstName}}! Jestem Twoim wirtualnym asystentem. W czym mogę pomóc?",
+      },
+    },
   },
   {
     keywords: ["price", "cost", "payment", "subscribe", "pricing", "plan", "plans"],
-    reply: "💸 Our pricing plans: Starter $49/month (up to 500 patients), Professional $99/month (unlimited patients, AI automation) 🌟 Popular, Premium $199/month (up to 12 practitioners), Enterprise (custom pricing for 12+ practitioners). All plans include free trial!",
+    reply: "{{#trial}}🎁 You're on a free trial{{#plan}} of the {{plan}} plan{{/plan}}{{#orgName}} for {{orgName}}{{/orgName}}. Pick a plan in your billing settings before the trial ends to keep your data.\n\n{{/trial}}{{^trial}}{{#plan}}📦 You're on the {{plan}} plan{{#orgName}} for {{orgName}}{{/orgName}}.\n\n{{/plan}}{{/trial}}💸 Our pricing plans: Starter $49/month (up to 500 patients), Professional $99/month (unlimited patients, AI automation) 🌟 Popular, Premium $199/month (up to 12 practitioners), Enterprise (custom pricing for 12+ practitioners). All plans include free trial!",
+    translations: {
+      uk: {
+        keywords: ["ціна", "ціни", "вартість", "оплата", "тариф", "тарифи", "підписка"],
+        reply: "{{#trial}}🎁 У вас безкоштовний пробний період{{#plan}} тарифу {{plan}}{{/plan}}. Оберіть тариф у налаштуваннях оплати до його завершення, щоб зберегти дані.\n\n{{/trial}}{{^trial}}{{#plan}}📦 Ваш тариф: {{plan}}.\n\n{{/plan}}{{/trial}}💸 Наші тарифи: Starter $49/місяць (до 500 пацієнтів), Professional $99/місяць (необмежена кількість пацієнтів, AI-автоматизація) 🌟 Популярний, Premium $199/місяць (до 12 спеціалістів), Enterprise (індивідуальна ціна для 12+ спеціалістів). Усі тарифи мають безкоштовний пробний період!",
+      },
+      pl: {
+        keywords: ["cena", "ceny", "koszt", "płatność", "cennik", "plan", "abonament"],
+        reply: "{{#trial}}🎁 Korzystasz z darmowego okresu próbnego{{#plan}} planu {{plan}}{{/plan}}. Wybierz plan w ustawieniach płatności przed jego końcem, aby zachować dane.\n\n{{/trial}}{{^trial}}{{#plan}}📦 Twój plan: {{plan}}.\n\n{{/plan}}{{/trial}}💸 Nasze plany: Starter $49/miesiąc (do 500 pacjentów), Professional $99/miesiąc (bez limitu pacjentów, automatyzacja AI) 🌟 Popularny, Premium $199/miesiąc (do 12 specjalistów), Enterprise (indywidualna wycena dla 12+ specjalistów). Każdy plan ma darmowy okres próbny!",
+      },
+    },
   },
   {
     keywords: ["support", "help", "problem", "issue"],
     reply: "🧑‍💻 I can guide you with basic support. If you want a human agent, just type *agent*.",
+    translations: {
+      uk: {
+        keywords: ["підтримка", "допомога", "проблема", "питання"],
+        reply: "🧑‍💻 Я можу допомогти з базовими питаннями. Якщо потрібен оператор, просто напишіть *оператор*.",
+      },
+      pl: {
+        keywords: ["wsparcie", "pomoc", "problem", "kłopot"],
+        reply: "🧑‍💻 Mogę pomóc w podstawowych sprawach. Jeśli chcesz porozmawiać z konsultantem, napisz *konsultant*.",
+      },
+    },
   },
   {
     keywords: ["hours", "time", "open", "schedule"],
-    reply: "⏰ Our support team is available 24/7 via chat or email.",
+    reply: "⏰ {{#businessHours}}Our support team is on shift {{businessHours}}. {{#open}}We're here now, type *agent* to talk to someone.{{/open}}{{^open}}We're off shift now and back {{nextOpening}}. Leave a message and an agent will answer then.{{/open}}{{/businessHours}}{{^businessHours}}Our support team is available 24/7 via chat or email.{{/businessHours}}",
+    translations: {
+      uk: {
+        keywords: ["години", "графік", "розклад", "коли працюєте"],
+        reply: "⏰ {{#businessHours}}Графік роботи нашої команди підтримки: {{businessHours}}. {{#open}}Ми зараз на зв'язку, напишіть *оператор*, щоб поговорити з людиною.{{/open}}{{^open}}Зараз ми не працюємо, повернемося {{nextOpening}}. Залиште повідомлення, і оператор відповість.{{/open}}{{/businessHours}}{{^businessHours}}Наша команда підтримки працює цілодобово в чаті та електронною поштою.{{/businessHours}}",
+      },
+      pl: {
+        keywords: ["godziny", "godzina", "harmonogram", "otwarte"],
+        reply: "⏰ {{#businessHours}}Godziny pracy naszego zespołu wsparcia: {{businessHours}}. {{#open}}Jesteśmy teraz dostępni, napisz *konsultant*, aby porozmawiać z człowiekiem.{{/open}}{{^open}}Teraz nie pracujemy, wracamy {{nextOpening}}. Zostaw wiadomość, a konsultant wtedy odpowie.{{/open}}{{/businessHours}}{{^businessHours}}Nasz zespół wsparcia jest dostępny 24/7 na czacie i przez e-mail.{{/businessHours}}",
+      },
+    },
   },
   {
     keywords: ["bye", "thanks", "thank you"],
     reply: "🙏 You're welcome! Feel free to reach out anytime.",
+    translations: {
+      uk: {
+        keywords: ["дякую", "дякуємо", "бувай", "до побачення"],
+        reply: "🙏 Будь ласка! Звертайтеся будь-коли.",
+      },
+      pl: {
+        keywords: ["dziękuję", "dzięki", "do widzenia", "pa"],
+        reply: "🙏 Proszę bardzo! Zapraszamy w każdej chwili.",
+      },
+    },
   },
 ];
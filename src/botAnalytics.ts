@@ -0,0 +1,185 @@
+// botAnalytics.ts
+// Report for /api/analytics/bot, built from the bot decisions the chat store
+// recorded. Every customer message the bot handled is one decision: a rule
+// answered, a flow went on, a knowledge base article or the AI answered, the
+// customer asked for an agent, or nothing matched (the fallback). 'handoff'
+// decisions mark chats going from the bot to agents and are not counted as
+// answers; they tell which rules did not settle a chat.
+import type {
+  AutoReplyRule,
+  BotDecision,
+  BotDecisionOutcome,
+  HandoffReason,
+} from './types.js';
+
+type Source = BotDecision['source'];
+
+export interface FallbackStats {
+  answered: number; // Customer messages the bot handled
+  fallbacks: number;
+  fallbackRate: number; // fallbacks / answered
+}
+
+// How one rule, flow, article or the fallback did
+export interface AnswerStats {
+  hits: number;
+  chats: number; // Chats it answered at least once
+  handedOff: number; // Of those, chats that went to an agent afterwards
+  handoffRate: number; // handedOff / chats
+}
+
+export interface RuleStats extends AnswerStats {
+  ruleId: string;
+  keywords?: string[]; // Missing for rules deleted since
+  enabled?: boolean;
+}
+
+export interface BotAnalyticsReport extends FallbackStats {
+  from: string;
+  to: string;
+  outcomes: Record<BotDecisionOutcome, number>;
+  handoffReasons: Partial<Record<HandoffReason, number>>; // Takeovers by agents have none
+  bySource: Record<Source, FallbackStats>;
+  rules: RuleStats[]; // Every rule, most hits first
+  flows: (AnswerStats & { flowId: string })[];
+  articles: (AnswerStats & { articleId: string })[];
+  fallback: AnswerStats;
+}
+
+function ratio(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : 0;
+}
+
+function fallbackStats(decisions: BotDecision[]): FallbackStats {
+  const answered = decisions.filter((d) => d.outcome !== 'handoff').length;
+  const fallbacks = decisions.filter((d) => d.outcome === 'fallback').length;
+  return { answered, fallbacks, fallbackRate: ratio(fallbacks, answered) };
+}
+
+// Hit counts per key, and how many of the chats each key answered went to an
+// agent after the first time it answered them
+function answerStats(
+  decisions: BotDecision[],
+  keyOf: (decision: BotDecision) => string | undefined,
+  lastHandoff: Map<string, number>
+): Map<string, AnswerStats> {
+  const hits = new Map<string, number>();
+  const firstHit = new Map<string, Map<string, number>>();
+  for (const decision of decisions) {
+    const key = keyOf(decision);
+    if (key === undefined) continue;
+    hits.set(key, (hits.get(key) || 0) + 1);
+    const chats = firstHit.get(key) || new Map<string, number>();
+    if (!chats.has(decision.chatId)) chats.set(decision.chatId, decision.at);
+    firstHit.set(key, chats);
+  }
+
+  const stats = new Map<string, AnswerStats>();
+  for (const [key, chats] of firstHit) {
+    let handedOff = 0;
+    for (const [chatId, at] of chats) {
+      if ((lastHandoff.get(chatId) ?? -1) >= at) handedOff++;
+    }
+    stats.set(key, {
+      hits: hits.get(key) || 0,
+      chats: chats.size,
+      handedOff,
+      handoffRate: ratio(handedOff, chats.size),
+    });
+  }
+  return stats;
+}
+
+const NO_ANSWERS: AnswerStats = {
+  hits: 0,
+  chats: 0,
+  handedOff: 0,
+  handoffRate: 0,
+};
+
+/** Builds the report for decisions made between from and to (ms). */
+export function summarizeBotDecisions(
+  decisions: BotDecision[],
+  rules: AutoReplyRule[],
+  from: number,
+  to: number
+): BotAnalyticsReport {
+  const outcomes: Record<BotDecisionOutcome, number> = {
+    rule: 0,
+    flow: 0,
+    knowledge: 0,
+    ai: 0,
+    human_request: 0,
+    fallback: 0,
+    handoff: 0,
+  };
+  const handoffReasons: Partial<Record<HandoffReason, number>> = {};
+  const lastHandoff = new Map<string, number>();
+  for (const decision of decisions) {
+    outcomes[decision.outcome]++;
+    if (decision.reason) {
+      handoffReasons[decision.reason] = (handoffReasons[decision.reason] || 0) + 1;
+    }
+    if (decision.outcome === 'handoff') {
+      lastHandoff.set(
+        decision.chatId,
+        Math.max(lastHandoff.get(decision.chatId) ?? 0, decision.at)
+      );
+    }
+  }
+
+  const byRule = answerStats(
+    decisions,
+    (d) => (d.outcome === 'rule' ? d.ruleId || 'built-in' : undefined),
+    lastHandoff
+  );
+  const byFlow = answerStats(
+    decisions,
+    (d) => (d.outcome === 'flow' ? d.flowId : undefined),
+    lastHandoff
+  );
+  const byArticle = answerStats(
+    decisions,
+    (d) => (d.outcome === 'knowledge' ? d.articleId : undefined),
+    lastHandoff
+  );
+  const fallback = answerStats(
+    decisions,
+    (d) => (d.outcome === 'fallback' ? 'fallback' : undefined),
+    lastHandoff
+  ).get('fallback');
+
+  // Rules that never fired are listed too; deleted rules that did are kept
+  const ruleStats: RuleStats[] = rules.map((rule) => ({
+    ruleId: rule.id,
+    keywords: rule.keywords,
+    enabled: rule.enabled,
+    ...(byRule.get(rule.id) || NO_ANSWERS),
+  }));
+  for (const [ruleId, stats] of byRule) {
+    if (!rules.some((rule) => rule.id === ruleId)) {
+      ruleStats.push({ ruleId, ...stats });
+    }
+  }
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    ...fallbackStats(decisions),
+    outcomes,
+    handoffReasons,
+    bySource: {
+      web: fallbackStats(decisions.filter((d) => d.source === 'web')),
+      telegram: fallbackStats(decisions.filter((d) => d.source === 'telegram')),
+    },
+    rules: ruleStats.sort((a, b) => b.hits - a.hits),
+    flows: Array.from(byFlow, ([flowId, stats]) => ({ flowId, ...stats })).sort(
+      (a, b) => b.hits - a.hits
+    ),
+    articles: Array.from(byArticle, ([articleId, stats]) => ({
+      articleId,
+      ...stats,
+    })).sort((a, b) => b.hits - a.hits),
+    fallback: fallback || NO_ANSWERS,
+  };
+}
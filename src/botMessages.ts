@@ -0,0 +1,119 @@
+// botMessages.ts
+// The bot's own messages in every language it speaks. Canned answers to
+// customer questions are auto-reply rules instead (see autoReplyRules.ts).
+import { DEFAULT_LOCALE } from './language.js';
+import type { Locale, QuickReply } from './types.js';
+
+const botMessages = {
+  welcome: {
+    en: '👋 Hello! How can I help you today?',
+    uk: '👋 Вітаю! Чим можу допомогти?',
+    pl: '👋 Dzień dobry! W czym mogę pomóc?',
+  },
+  humanRequested: {
+    en: "🙋 I've notified our support team. An agent will join you shortly.",
+    uk: '🙋 Я повідомив нашу команду підтримки. Оператор скоро приєднається.',
+    pl: '🙋 Powiadomiłem nasz zespół wsparcia. Konsultant wkrótce dołączy.',
+  },
+  fallback: {
+    en: "🤖 I'm not sure I understand. You can ask about prices, support, or type *agent* for human help.",
+    uk: '🤖 Не впевнений, що зрозумів. Запитайте про ціни чи підтримку або напишіть *оператор*, щоб поговорити з людиною.',
+    pl: '🤖 Nie jestem pewien, czy rozumiem. Zapytaj o ceny lub pomoc albo napisz *konsultant*, aby porozmawiać z człowiekiem.',
+  },
+  chatClosed: {
+    en: '✅ This chat has been closed. Just write here if you need anything else.',
+    uk: '✅ Цей чат закрито. Просто напишіть сюди, якщо знадобиться щось ще.',
+    pl: '✅ Ten czat został zamknięty. Napisz tutaj, jeśli będziesz czegoś potrzebować.',
+  },
+  fileReceived: {
+    en: 'Thank you for sending that file! How can I help you today?',
+    uk: 'Дякуємо за файл! Чим можу допомогти?',
+    pl: 'Dziękujemy za plik! W czym mogę pomóc?',
+  },
+  flowUnclear: {
+    en: "Sorry, I didn't get that. Please pick one of the options, or type *cancel*.",
+    uk: 'Вибачте, я не зрозумів. Оберіть один із варіантів або напишіть *скасувати*.',
+    pl: 'Przepraszam, nie zrozumiałem. Wybierz jedną z opcji lub napisz *anuluj*.',
+  },
+  flowCancelled: {
+    en: 'OK, cancelled. How else can I help?',
+    uk: 'Гаразд, скасовано. Чим ще можу допомогти?',
+    pl: 'Dobrze, anulowano. W czym jeszcze mogę pomóc?',
+  },
+  outOfHours: {
+    en: "🌙 Our support team is off shift right now. Your request is queued and an agent will answer as soon as we're back.",
+    uk: '🌙 Наша команда підтримки зараз не працює. Ваш запит у черзі, і оператор відповість, щойно ми повернемося.',
+    pl: '🌙 Nasz zespół wsparcia jest teraz poza godzinami pracy. Twoja prośba czeka w kolejce, a konsultant odpowie, gdy tylko wrócimy.',
+  },
+  aiDeclined: {
+    en: "🤖 I couldn't find an answer to that in our help content, and I'd rather not guess. An agent can help you with it.",
+    uk: '🤖 Я не знайшов відповіді на це в наших довідкових матеріалах і не хочу вгадувати. Оператор допоможе вам із цим.',
+    pl: '🤖 Nie znalazłem odpowiedzi na to w naszych materiałach pomocy i wolę nie zgadywać. Konsultant pomoże Ci w tej sprawie.',
+  },
+  aiSources: {
+    en: 'Source:',
+    uk: 'Джерело:',
+    pl: 'Źródło:',
+  },
+  readMore: {
+    en: 'Read more:',
+    uk: 'Докладніше:',
+    pl: 'Więcej:',
+  },
+} satisfies Record<string, Record<Locale, string>>;
+
+export type BotMessage = keyof typeof botMessages;
+
+// Buttons under bot messages. Clicking one sends its text as if the customer
+// had typed it, so it has to be something the bot answers.
+const quickReplies = {
+  pricing: {
+    label: { en: '💸 Pricing', uk: '💸 Ціни', pl: '💸 Cennik' },
+    text: { en: 'pricing', uk: 'ціни', pl: 'cennik' },
+  },
+  hours: {
+    label: { en: '⏰ Hours', uk: '⏰ Графік', pl: '⏰ Godziny' },
+    text: { en: 'hours', uk: 'години', pl: 'godziny' },
+  },
+  agent: {
+    label: { en: '🙋 Talk to agent', uk: '🙋 Оператор', pl: '🙋 Konsultant' },
+    text: { en: 'agent', uk: 'оператор', pl: 'konsultant' },
+  },
+} satisfies Record<
+  string,
+  { label: Record<Locale, string>; text: Record<Locale, string> }
+>;
+
+export type QuickReplyId = keyof typeof quickReplies;
+
+// Buttons offered with the welcome and when the bot does not understand
+export const MENU_QUICK_REPLIES: QuickReplyId[] = ['pricing', 'hours', 'agent'];
+
+/** The bot message in the chat's language, or in English. */
+export function botText(key: BotMessage, locale?: Locale): string {
+  return botMessages[key][locale || DEFAULT_LOCALE];
+}
+
+/** Buttons for the quick replies, labelled in the chat's language. */
+export function quickReplyButtons(
+  ids: QuickReplyId[],
+  locale?: Locale
+): QuickReply[] {
+  return ids.map((id) => ({
+    id,
+    label: quickReplies[id].label[locale || DEFAULT_LOCALE],
+  }));
+}
+
+/** What clicking a quick reply says, or undefined for an unknown ID. */
+export function quickReplyAnswer(
+  id: string,
+  locale?: Locale
+): { label: string; text: string } | undefined {
+  if (!Object.hasOwn(quickReplies, id)) return undefined;
+  const quickReply = quickReplies[id as QuickReplyId];
+  return {
+    label: quickReply.label[locale || DEFAULT_LOCALE],
+    text: quickReply.text[locale || DEFAULT_LOCALE],
+  };
+}
@@ -0,0 +1,281 @@
+// businessHours.ts
+// When the support team is on shift. The schedule is weekly opening periods
+// in one time zone, plus holidays when the team is off all day:
+//
+//   BUSINESS_HOURS=mon-fri 09:00-18:00; sat 10:00-14:00
+//   BUSINESS_HOURS=mon-fri 22:00-06:00 (night shifts end the next day)
+//   BUSINESS_HOURS_TIMEZONE=Europe/Kyiv
+//   BUSINESS_HOLIDAYS=2026-12-25,2027-01-01
+//
+// Without BUSINESS_HOURS the team counts as always on shift. Outside hours
+// handoff requests are queued and agents get one summary when the team is
+// back, see server.ts.
+import { DEFAULT_LOCALE } from './language.js';
+import type { Locale } from './types.js';
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// How far ahead the next opening is looked for
+const LOOKAHEAD_DAYS = 14;
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday
+  start: number; // Minutes after midnight
+  end: number; // Up to 24 * 60
+}
+
+export interface BusinessHours {
+  timeZone: string;
+  periods: OpeningPeriod[]; // Empty means always open
+  holidays: Set<string>; // YYYY-MM-DD in the time zone
+}
+
+interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  minutes: number; // Minutes after midnight
+  date: string; // YYYY-MM-DD
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedDate(time: number, timeZone: string): ZonedDate {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatter.formatToParts(new Date(time))) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: DAYS.indexOf(parts.weekday.toLowerCase()),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+// The instant a wall-clock time happens in the time zone. Checked twice so
+// days when the clocks change come out right.
+function zonedTime(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string
+) {
+  const wallTime = Date.UTC(year, month - 1, day, 0, minutes);
+  let time = wallTime;
+  for (let i = 0; i < 2; i++) {
+    const zoned = zonedDate(time, timeZone);
+    const offset =
+      Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes) -
+      time;
+    time = wallTime - offset;
+  }
+  return time;
+}
+
+function parseTime(text: string) {
+  const match = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : undefined;
+}
+
+function parseDays(text: string): number[] {
+  const days: number[] = [];
+  for (const part of text.toLowerCase().split(',')) {
+    const [from, to = from] = part.trim().split('-');
+    const start = DAYS.indexOf(from.slice(0, 3));
+    const end = DAYS.indexOf(to.slice(0, 3));
+    if (start < 0 || end < 0) throw new Error(`Unknown day in "${text}"`);
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === end) break;
+    }
+  }
+  return days;
+}
+
+/**
+ * Parses "mon-fri 09:00-18:00; sat 10:00-14:00". A shift ending before it
+ * starts, like "fri 22:00-06:00", runs past midnight into the next day.
+ * Throws on bad input.
+ */
+export function parseOpeningPeriods(text: string): OpeningPeriod[] {
+  const periods: OpeningPeriod[] = [];
+  for (const entry of text.split(';')) {
+    if (!entry.trim()) continue;
+    const match = entry.trim().match(/^(\S+)\s+(\S+)-(\S+)$/);
+    const start = match && parseTime(match[2]);
+    const end = match && parseTime(match[3]);
+    if (!match || start == null || end == null || end === start) {
+      throw new Error(
+        `Expected "<days> HH:MM-HH:MM" with different start and end, got "${entry.trim()}"`
+      );
+    }
+    for (const day of parseDays(match[1])) {
+      if (end > start) {
+        periods.push({ day, start, end });
+        continue;
+      }
+      // Overnight: the rest of the day, then the next morning
+      periods.push({ day, start, end: 24 * 60 });
+      if (end > 0) periods.push({ day: (day + 1) % 7, start: 0, end });
+    }
+  }
+  return periods.sort((a, b) => a.day - b.day || a.start - b.start);
+}
+
+export function businessHoursFromEnv(): BusinessHours {
+  let timeZone = process.env.BUSINESS_HOURS_TIMEZONE || 'UTC';
+  try {
+    zonedDate(Date.now(), timeZone);
+  } catch {
+    console.error(`❌ Unknown BUSINESS_HOURS_TIMEZONE ${timeZone}, using UTC`);
+    timeZone = 'UTC';
+  }
+
+  let periods: OpeningPeriod[] = [];
+  try {
+    periods = parseOpeningPeriods(process.env.BUSINESS_HOURS || '');
+  } catch (error) {
+    console.error('❌ Invalid BUSINESS_HOURS, treating support as always open:', error);
+  }
+
+  const holidays = new Set(
+    (process.env.BUSINESS_HOLIDAYS || '')
+      .split(',')
+      .map((date) => date.trim())
+      .filter((date) => /^\d{4}-\d{2}-\d{2}$/.test(date))
+  );
+  return { timeZone, periods, holidays };
+}
+
+/** Whether the team is on shift at the time. */
+export function isOpen(hours: BusinessHours, now = Date.now()): boolean {
+  if (hours.periods.length === 0) return true;
+  const zoned = zonedDate(now, hours.timeZone);
+  if (hours.holidays.has(zoned.date)) return false;
+  return hours.periods.some(
+    (period) =>
+      period.day === zoned.weekday &&
+      period.start <= zoned.minutes &&
+      zoned.minutes < period.end
+  );
+}
+
+/** When the team is next on shift: now if open, undefined if never. */
+export function nextOpening(
+  hours: BusinessHours,
+  now = Date.now()
+): number | undefined {
+  if (isOpen(hours, now)) return now;
+  const today = zonedDate(now, hours.timeZone);
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    // Calendar arithmetic on the local date; the time is worked out below
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const [year, month, day] = [
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+    ];
+    if (hours.holidays.has(date.toISOString().slice(0, 10))) continue;
+
+    for (const period of hours.periods) {
+      if (period.day !== date.getUTCDay()) continue;
+      const start = zonedTime(year, month, day, period.start, hours.timeZone);
+      if (start > now) return start;
+    }
+  }
+  return undefined;
+}
+
+/** The time as customers read it, in the team's time zone. */
+export function formatOpening(
+  time: number,
+  hours: BusinessHours,
+  locale?: Locale
+): string {
+  return new Intl.DateTimeFormat(locale || DEFAULT_LOCALE, {
+    timeZone: hours.timeZone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(new Date(time));
+}
+
+function formatMinutes(minutes: number) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/** The weekly schedule, e.g. "Mon–Fri 09:00–18:00, Sat 10:00–14:00 (Europe/Kyiv)". */
+export function describeBusinessHours(
+  hours: BusinessHours,
+  locale?: Locale
+): string | undefined {
+  if (hours.periods.length === 0) return undefined;
+  const weekday = new Intl.DateTimeFormat(locale || DEFAULT_LOCALE, {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+  // 2023-01-01 was a Sunday
+  const dayName = (day: number) =>
+    weekday.format(new Date(Date.UTC(2023, 0, 1 + day)));
+  const dayHours = (day: number) =>
+    hours.periods
+      .filter((period) => period.day === day)
+      .map((period) => `${formatMinutes(period.start)}–${formatMinutes(period.end)}`)
+      .join(', ');
+
+  // Days in a row with the same hours are joined, Monday first
+  const groups: { first: number; last: number; hours: string }[] = [];
+  for (const day of [1, 2, 3, 4, 5, 6, 0]) {
+    const text = dayHours(day);
+    const previous = groups[groups.length - 1];
+    if (!text) continue;
+    if (previous?.hours === text && (previous.last + 1) % 7 === day) {
+      previous.last = day;
+    } else {
+      groups.push({ first: day, last: day, hours: text });
+    }
+  }
+  const described = groups.map(({ first, last, hours: text }) =>
+    first === last
+      ? `${dayName(first)} ${text}`
+      : `${dayName(first)}–${dayName(last)} ${text}`
+  );
+  return `${described.join(', ')} (${hours.timeZone})`;
+}
+
+/** Calls onOpen every minute while the team is on shift. Returns the timer. */
+export function startOpeningWatcher(
+  hours: BusinessHours,
+  onOpen: () => void
+): NodeJS.Timeout {
+  return setInterval(() => {
+    if (isOpen(hours)) onOpen();
+  }, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,51 @@
+// chatLifecycle.ts
+// Lifecycle rules for chats (see ChatStatus in types.ts) and the sweeper
+// that closes chats nobody has written to for a while.
+import type { ChatState, ChatStatus } from './types.js';
+
+const ACTIVE_STATUSES: ChatStatus[] = ['open', 'pending', 'reopened'];
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Chats agents still have to deal with; shown by /list. */
+export function isActiveChat(chat: ChatState): boolean {
+  return ACTIVE_STATUSES.includes(chat.status);
+}
+
+/** A customer message in a finished chat reopens it. */
+export function shouldReopen(chat: ChatState): boolean {
+  return chat.status === 'resolved' || chat.status === 'closed';
+}
+
+/** Status after an agent takes a chat over. */
+export function statusAfterTakeover(chat: ChatState): ChatStatus {
+  return chat.status === 'reopened' ? 'reopened' : 'open';
+}
+
+/**
+ * Closed chats are archived in the store and not loaded on startup. A
+ * customer writing again gets theirs back through chatStore.fetch, which
+ * loads archived chats too, and reopens it.
+ */
+export function isArchived(chat: Pick<ChatState, 'status'>): boolean {
+  return chat.status === 'closed';
+}
+
+/**
+ * Calls onIdle for every chat that is not closed yet and has had no activity
+ * for idleMs. Returns the timer so it can be stopped on shutdown.
+ */
+export function startAutoCloseSweeper(
+  idleMs: number,
+  listChats: () => [string, ChatState][],
+  onIdle: (chatId: string) => void
+): NodeJS.Timeout {
+  return setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [chatId, chat] of listChats()) {
+      if (chat.status !== 'closed' && chat.lastActivityAt < cutoff) {
+        onIdle(chatId);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+}
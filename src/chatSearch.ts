@@ -0,0 +1,76 @@
+// chatSearch.ts
+// Agent search over chats. A chat matches when every query term appears in
+// its ID, customer name or organization, or in one of its messages. Terms
+// are whole words, case-insensitive, the same way the Supabase backend
+// matches them (migrations/006_chat_search.sql).
+import type { ChatState, Message } from './types.js';
+
+const SNIPPET_LENGTH = 120;
+
+export interface ChatSearchHit {
+  chatId: string;
+  chat: Omit<ChatState, 'messages'> | null; // null for chats with only messages left
+  message?: Message; // Latest matching message, if the match was in a message
+}
+
+/** Splits text into lowercase words. Used for queries and for the text searched. */
+export function searchTerms(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function containsAll(text: string, terms: string[]): boolean {
+  const words = new Set(searchTerms(text));
+  return terms.every((term) => words.has(term));
+}
+
+function chatFieldsText(chatId: string, chat: ChatState): string {
+  return [chatId, chat.userFirstName, chat.userLastName, chat.organizationName]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** Matches one chat against the query terms, searching the messages given. */
+export function matchChat(
+  chatId: string,
+  chat: ChatState,
+  messages: Message[],
+  terms: string[]
+): ChatSearchHit | null {
+  if (terms.length === 0) return null;
+
+  let message: Message | undefined;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (containsAll(messages[i].text || '', terms)) {
+      message = messages[i];
+      break;
+    }
+  }
+  if (!message && !containsAll(chatFieldsText(chatId, chat), terms)) {
+    return null;
+  }
+
+  const { messages: _messages, ...fields } = chat;
+  return { chatId, chat: fields, message };
+}
+
+/** Most recent first; chats without state go by their matching message. */
+export function sortSearchHits(hits: ChatSearchHit[]): ChatSearchHit[] {
+  const activity = (hit: ChatSearchHit) =>
+    hit.chat?.lastActivityAt ?? hit.message?.timestamp ?? 0;
+  return hits.sort((a, b) => activity(b) - activity(a));
+}
+
+/** The part of a message around the first query term. */
+export function searchSnippet(text: string, terms: string[]): string {
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lower = text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0)
+  );
+  const start = Number.isFinite(first)
+    ? Math.max(0, first - SNIPPET_LENGTH / 4)
+    : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
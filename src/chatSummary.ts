@@ -0,0 +1,61 @@
+// chatSummary.ts
+// What the dashboard gets for each chat in active_chats_snapshot. Messages
+// are not included; the dashboard loads them page by page from
+// /api/chat/history/:chatId when a chat is opened.
+import type { ChatState, Message } from './types.js';
+
+export interface ChatSummary {
+  chatId: string;
+  mode: ChatState['mode'];
+  status: ChatState['status'];
+  agentId?: string;
+  agentName?: string;
+  source: ChatState['source'];
+  requestingHuman?: boolean;
+  userFirstName?: string;
+  userLastName?: string;
+  organizationName?: string;
+  createdAt: number;
+  lastActivityAt: number;
+  lastMessage: Message | null;
+  messageCount: number;
+  unreadCount: number;
+}
+
+/**
+ * Customer messages since an agent last read the chat or replied to it.
+ * Only messages still in memory are counted, so the count stops at the
+ * memory cap (CHAT_MEMORY_MAX_MESSAGES).
+ */
+export function unreadCount(chat: ChatState): number {
+  let count = 0;
+  for (let i = chat.messages.length - 1; i >= 0; i--) {
+    const message = chat.messages[i];
+    if (message.from === 'agent') break;
+    if (chat.lastReadAt !== undefined && message.timestamp <= chat.lastReadAt) {
+      break;
+    }
+    if (message.from === 'user' && !message.deletedAt) count++;
+  }
+  return count;
+}
+
+export function toChatSummary(chatId: string, chat: ChatState): ChatSummary {
+  return {
+    chatId,
+    mode: chat.mode,
+    status: chat.status,
+    agentId: chat.agentId,
+    agentName: chat.agentName,
+    source: chat.source,
+    requestingHuman: chat.requestingHuman,
+    userFirstName: chat.userFirstName,
+    userLastName: chat.userLastName,
+    organizationName: chat.organizationName,
+    createdAt: chat.createdAt,
+    lastActivityAt: chat.lastActivityAt,
+    lastMessage: chat.messages[chat.messages.length - 1] || null,
+    messageCount: chat.messageCount ?? chat.messages.length,
+    unreadCount: unreadCount(chat),
+  };
+}
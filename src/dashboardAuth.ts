@@ -0,0 +1,93 @@
+// dashboardAuth.ts
+// Who is calling a dashboard route. The dashboard signs agents in with
+// Supabase and sends the session's access token:
+//
+//   Authorization: Bearer <access token>
+//
+// The token's user must be an active agent in the roster (its
+// dashboardUserId, see /api/agents) with one of the roles the route needs.
+// The agent is then res.locals.agent, so routes record who did what from
+// the token rather than from anything the client says.
+//
+// Only admins can change the roster, so the first admin comes from
+// DASHBOARD_ADMIN_USER_IDS: Supabase user IDs that count as admins even
+// without an agent in the roster.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NextFunction, Request, Response } from 'express';
+import type { AgentRoster } from './agentRoster.js';
+import type { Agent, AgentRole } from './types.js';
+
+export interface DashboardAuth {
+  /** Middleware that lets through active agents with one of the roles. */
+  requireRole(
+    ...roles: AgentRole[]
+  ): (req: Request, res: Response, next: NextFunction) => Promise<void>;
+}
+
+function bearerToken(req: Request) {
+  const match = req.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/** How an agent is named in audit records. */
+export function describeAgent(agent: Agent): string {
+  return `${agent.displayName} (${agent.dashboardUserId ?? agent.telegramId})`;
+}
+
+// Stands in for a bootstrap admin that has no agent in the roster
+function bootstrapAdmin(userId: string): Agent {
+  return {
+    telegramId: 0,
+    displayName: 'Bootstrap admin',
+    dashboardUserId: userId,
+    roles: ['admin'],
+    active: true,
+    createdAt: 0,
+    lastSeenAt: 0,
+  };
+}
+
+export function createDashboardAuth(
+  supabase: SupabaseClient,
+  roster: AgentRoster,
+  adminUserIds: string[] = []
+): DashboardAuth {
+  return {
+    requireRole(...roles) {
+      return async (req, res, next) => {
+        const token = bearerToken(req);
+        if (!token) {
+          res.status(401).json({ error: 'Missing bearer token' });
+          return;
+        }
+
+        let userId: string | undefined;
+        try {
+          const { data, error } = await supabase.auth.getUser(token);
+          if (!error) userId = data.user?.id;
+        } catch (error) {
+          console.error('❌ Failed to verify dashboard token:', error);
+          res.status(503).json({ error: 'Could not verify the token' });
+          return;
+        }
+        if (!userId) {
+          res.status(401).json({ error: 'Invalid or expired token' });
+          return;
+        }
+
+        let agent = roster.findByDashboardUserId(userId);
+        if (adminUserIds.includes(userId)) {
+          agent = agent?.active
+            ? { ...agent, roles: Array.from(new Set([...agent.roles, 'admin' as const])) }
+            : bootstrapAdmin(userId);
+        }
+        if (!agent?.active || !agent.roles.some((role) => roles.includes(role))) {
+          res.status(403).json({ error: `Requires role: ${roles.join(' or ')}` });
+          return;
+        }
+        res.locals.agent = agent;
+        next();
+      };
+    },
+  };
+}
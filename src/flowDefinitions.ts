@@ -0,0 +1,199 @@
+// flowDefinitions.ts
+// The customer bot's flows, see flows.ts. Step IDs only need to be unique
+// within their flow. Changing a flow's step IDs drops chats that are on a
+// step that no longer exists out of the flow.
+import type { Flow } from './flows.js';
+
+const YES = ['yes', 'yeah', 'yep', 'y', 'так', 'ага', 'tak'];
+const NO = ['no', 'nope', 'n', 'ні', 'nie'];
+
+export const flows: Flow[] = [
+  {
+    id: 'trial-signup',
+    name: 'Trial signup help',
+    triggers: [
+      'trial',
+      'free trial',
+      'sign up',
+      'signup',
+      'register',
+      'пробний',
+      'реєстрація',
+      'зареєструватися',
+      'okres próbny',
+      'rejestracja',
+      'zarejestrować',
+    ],
+    steps: [
+      {
+        id: 'practice-size',
+        label: 'Practice',
+        text: {
+          en: '🚀 Happy to help you start your free trial! Are you signing up on your own or for a clinic with several practitioners? (solo / clinic)',
+          uk: '🚀 Радо допоможу почати безкоштовний пробний період! Ви реєструєтеся самостійно чи для клініки з кількома спеціалістами? (сам / клініка)',
+          pl: '🚀 Chętnie pomogę rozpocząć darmowy okres próbny! Rejestrujesz się sam czy dla gabinetu z kilkoma specjalistami? (sam / gabinet)',
+        },
+        options: [
+          {
+            keywords: ['solo', 'alone', 'myself', 'сам', 'сама', 'один', 'sam', 'sama'],
+            answer: 'Solo',
+            next: 'solo',
+          },
+          {
+            keywords: ['clinic', 'team', 'practice', 'клініка', 'команда', 'gabinet', 'klinika', 'zespół'],
+            answer: 'Clinic',
+            next: 'clinic',
+          },
+        ],
+      },
+      {
+        id: 'solo',
+        label: 'Has an account',
+        text: {
+          en: '👤 Starter ($49/month) or Professional ($99/month) suit solo practitioners best. Have you already created an account? (yes / no)',
+          uk: '👤 Для спеціалістів, що працюють самостійно, найкраще підходять Starter ($49/місяць) або Professional ($99/місяць). Ви вже створили акаунт? (так / ні)',
+          pl: '👤 Dla specjalistów pracujących samodzielnie najlepsze są Starter ($49/miesiąc) lub Professional ($99/miesiąc). Czy masz już konto? (tak / nie)',
+        },
+        options: [
+          { keywords: YES, answer: 'yes', next: 'trial-problem' },
+          { keywords: NO, answer: 'no', next: 'how-to-sign-up' },
+        ],
+      },
+      {
+        id: 'clinic',
+        label: 'Has an account',
+        text: {
+          en: '👥 Premium ($199/month, up to 12 practitioners) or Enterprise (12+) suit clinics best. Have you already created an account? (yes / no)',
+          uk: '👥 Для клінік найкраще підходять Premium ($199/місяць, до 12 спеціалістів) або Enterprise (12+). Ви вже створили акаунт? (так / ні)',
+          pl: '👥 Dla gabinetów najlepsze są Premium ($199/miesiąc, do 12 specjalistów) lub Enterprise (12+). Czy masz już konto? (tak / nie)',
+        },
+        options: [
+          { keywords: YES, answer: 'yes', next: 'trial-problem' },
+          { keywords: NO, answer: 'no', next: 'how-to-sign-up' },
+        ],
+      },
+      {
+        id: 'how-to-sign-up',
+        text: {
+          en: '✍️ Sign up on our website and pick a plan; the free trial starts right away. If you get stuck, just type *agent*.',
+          uk: '✍️ Зареєструйтеся на нашому сайті й оберіть тариф — пробний період почнеться одразу. Якщо щось не вийде, напишіть *оператор*.',
+          pl: '✍️ Zarejestruj się na naszej stronie i wybierz plan — okres próbny zacznie się od razu. Jeśli coś nie zadziała, napisz *konsultant*.',
+        },
+      },
+      {
+        id: 'trial-problem',
+        label: 'Problem',
+        text: {
+          en: '🔎 What went wrong when starting your trial? Please describe it in one message.',
+          uk: '🔎 Що пішло не так під час запуску пробного періоду? Опишіть, будь ласка, одним повідомленням.',
+          pl: '🔎 Co poszło nie tak przy uruchamianiu okresu próbnego? Opisz to proszę w jednej wiadomości.',
+        },
+        next: 'handoff',
+      },
+      { id: 'handoff', handoff: true },
+    ],
+  },
+  {
+    id: 'billing-issue',
+    name: 'Billing issue',
+    triggers: [
+      'billing',
+      'charged',
+      'refund',
+      'invoice',
+      'payment failed',
+      'double charge',
+      'рахунок',
+      'списали',
+      'повернення коштів',
+      'оплата не пройшла',
+      'faktura',
+      'zwrot',
+      'obciążenie',
+      'płatność nie przeszła',
+    ],
+    steps: [
+      {
+        id: 'issue-type',
+        label: 'Issue',
+        text: {
+          en: '💳 Sorry about the billing trouble. What is it about?\n1. A wrong or double charge\n2. A failed payment\n3. Changing or cancelling my plan',
+          uk: '💳 Перепрошуємо за незручності з оплатою. Що сталося?\n1. Неправильне або подвійне списання\n2. Оплата не пройшла\n3. Зміна або скасування тарифу',
+          pl: '💳 Przepraszamy za problem z płatnością. Czego dotyczy?\n1. Błędne lub podwójne obciążenie\n2. Nieudana płatność\n3. Zmiana lub anulowanie planu',
+        },
+        options: [
+          {
+            keywords: ['1', 'wrong', 'double', 'charge', 'неправильне', 'подвійне', 'błędne', 'podwójne'],
+            answer: 'Wrong or double charge',
+            next: 'charge-details',
+          },
+          {
+            keywords: ['2', 'failed', 'declined', 'не пройшла', 'nieudana'],
+            answer: 'Failed payment',
+            next: 'failed-payment',
+          },
+          {
+            keywords: ['3', 'change', 'cancel', 'plan', 'зміна', 'скасування', 'тариф', 'zmiana', 'anulowanie'],
+            answer: 'Plan change',
+            next: 'plan-change',
+          },
+        ],
+      },
+      {
+        id: 'charge-details',
+        label: 'Charge',
+        text: {
+          en: '🧾 Please send the date and amount of the charge, and the email of your account.',
+          uk: '🧾 Надішліть, будь ласка, дату й суму списання та email вашого акаунта.',
+          pl: '🧾 Podaj proszę datę i kwotę obciążenia oraz e-mail swojego konta.',
+        },
+        next: 'handoff',
+      },
+      {
+        id: 'failed-payment',
+        label: 'Card check helped',
+        text: {
+          en: '🔁 Payments usually fail when a card has expired or the bank blocked the charge. Please check your card in your account\'s billing settings and try again. Did that help? (yes / no)',
+          uk: '🔁 Зазвичай оплата не проходить, якщо термін дії картки минув або банк заблокував платіж. Перевірте картку в налаштуваннях оплати акаунта й спробуйте ще раз. Це допомогло? (так / ні)',
+          pl: '🔁 Płatność zwykle nie przechodzi, gdy karta wygasła lub bank ją zablokował. Sprawdź kartę w ustawieniach płatności konta i spróbuj ponownie. Czy to pomogło? (tak / nie)',
+        },
+        options: [
+          { keywords: YES, answer: 'yes', next: 'resolved' },
+          { keywords: NO, answer: 'no', next: 'failed-details' },
+        ],
+      },
+      {
+        id: 'failed-details',
+        label: 'Payment error',
+        text: {
+          en: '📝 Please tell us what you see when you try to pay.',
+          uk: '📝 Напишіть, будь ласка, що ви бачите, коли намагаєтеся оплатити.',
+          pl: '📝 Napisz proszę, co widzisz, gdy próbujesz zapłacić.',
+        },
+        next: 'handoff',
+      },
+      {
+        id: 'plan-change',
+        label: 'Wants an agent',
+        text: {
+          en: '⚙️ You can change or cancel your plan any time in your account\'s billing settings. Would you like an agent to do it for you? (yes / no)',
+          uk: '⚙️ Змінити або скасувати тариф можна будь-коли в налаштуваннях оплати акаунта. Хочете, щоб це зробив оператор? (так / ні)',
+          pl: '⚙️ Plan możesz zmienić lub anulować w każdej chwili w ustawieniach płatności konta. Czy konsultant ma to zrobić za Ciebie? (tak / nie)',
+        },
+        options: [
+          { keywords: YES, answer: 'yes', next: 'handoff' },
+          { keywords: NO, answer: 'no', next: 'resolved' },
+        ],
+      },
+      {
+        id: 'resolved',
+        text: {
+          en: '🙌 Great! If anything else comes up, just write here.',
+          uk: '🙌 Чудово! Якщо виникне щось ще, просто напишіть сюди.',
+          pl: '🙌 Świetnie! Jeśli coś jeszcze się pojawi, po prostu napisz tutaj.',
+        },
+      },
+      { id: 'handoff', handoff: true },
+    ],
+  },
+];
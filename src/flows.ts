@@ -0,0 +1,197 @@
+// flows.ts
+// Multi-step conversations for the customer bot. A flow starts when the
+// customer writes one of its trigger keywords. Each step sends a message and
+// waits for the answer, which picks the next step by its options or is kept
+// as free text. The chat's place in the flow is kept on ChatState.flow, so
+// it survives restarts and works the same for Telegram and web chats.
+//
+// A flow ends at a step with nowhere to go, when the customer cancels it,
+// asks for a human, or takes longer than the flow's timeout to answer (a late
+// answer is handled as if no flow was running). An agent taking over or
+// closing the chat ends it too.
+import { botText } from './botMessages.js';
+import { hasKeyword } from './getAutoReplies.js';
+import { DEFAULT_LOCALE } from './language.js';
+import { flows } from './flowDefinitions.js';
+import type { ChatState, FlowState, Locale } from './types.js';
+
+export const DEFAULT_FLOW_TIMEOUT_MINUTES = 30;
+// Unclear answers to one step before the flow gives up
+const MAX_UNCLEAR_ANSWERS = 2;
+
+// Text typed on its own that leaves a flow
+const CANCEL_WORDS = [
+  'cancel',
+  'stop',
+  'exit',
+  'скасувати',
+  'стоп',
+  'вийти',
+  'anuluj',
+  'wyjdź',
+];
+
+export type LocalizedText = { en: string } & Partial<Record<Locale, string>>;
+
+export interface FlowOption {
+  keywords: string[]; // Any language; the first option with one found wins
+  answer?: string; // Kept as the answer instead of the customer's text
+  next: string; // Step ID
+}
+
+export interface FlowStep {
+  id: string;
+  text?: LocalizedText; // Sent when the step starts
+  label?: string; // Names the answer in the summary agents get
+  options?: FlowOption[];
+  next?: string; // Step for an answer that matches no option
+  handoff?: boolean; // Ends the flow by asking for a human agent
+}
+
+export interface Flow {
+  id: string;
+  name: string;
+  triggers: string[]; // Whole words or phrases, any language
+  steps: FlowStep[]; // The first step starts the flow
+  timeoutMinutes?: number; // Default DEFAULT_FLOW_TIMEOUT_MINUTES
+}
+
+export interface FlowReply {
+  flowId: string;
+  messages: string[]; // Bot messages to send, in order
+  ended?: 'completed' | 'cancelled' | 'handoff';
+  handoff?: string; // For 'handoff': the flow's answers, for agents
+}
+
+const flowsById = new Map(flows.map((flow) => [flow.id, flow]));
+
+function localize(text: LocalizedText, locale?: Locale) {
+  return text[locale || DEFAULT_LOCALE] || text.en;
+}
+
+function findStep(flow: Flow, stepId: string) {
+  return flow.steps.find((step) => step.id === stepId);
+}
+
+function isExpired(flow: Flow, state: FlowState, now: number) {
+  const timeout = flow.timeoutMinutes ?? DEFAULT_FLOW_TIMEOUT_MINUTES;
+  return now - state.stepStartedAt > timeout * 60 * 1000;
+}
+
+/** The flow the text starts, if any. */
+export function findFlowTrigger(text: string): Flow | undefined {
+  return flows.find((flow) =>
+    flow.triggers.some((trigger) => hasKeyword(text, trigger))
+  );
+}
+
+function answersSummary(flow: Flow, state: FlowState) {
+  const lines = flow.steps
+    .filter((step) => state.answers[step.id] !== undefined)
+    .map((step) => `${step.label || step.id}: ${state.answers[step.id]}`);
+  return [flow.name, ...lines].join('\n');
+}
+
+// Moves the chat to a step and collects its message. Steps with nowhere to
+// go end the flow.
+function enterStep(
+  chat: ChatState,
+  flow: Flow,
+  step: FlowStep,
+  now: number
+): FlowReply {
+  const state = chat.flow!;
+  const messages = step.text ? [localize(step.text, chat.language)] : [];
+
+  if (step.handoff) {
+    const handoff = answersSummary(flow, state);
+    delete chat.flow;
+    return { flowId: flow.id, messages, ended: 'handoff', handoff };
+  }
+  if (!step.options?.length && !step.next) {
+    delete chat.flow;
+    return { flowId: flow.id, messages, ended: 'completed' };
+  }
+
+  state.stepId = step.id;
+  state.stepStartedAt = now;
+  state.unclearAnswers = 0;
+  return { flowId: flow.id, messages };
+}
+
+// Handles the answer to the step the chat is on
+function answerStep(
+  chat: ChatState,
+  flow: Flow,
+  step: FlowStep,
+  text: string,
+  now: number
+): FlowReply | null {
+  const state = chat.flow!;
+  const answer = text.trim();
+  if (CANCEL_WORDS.includes(answer.toLowerCase())) {
+    delete chat.flow;
+    return {
+      flowId: flow.id,
+      messages: [botText('flowCancelled', chat.language)],
+      ended: 'cancelled',
+    };
+  }
+
+  const option = step.options?.find((candidate) =>
+    candidate.keywords.some((keyword) => hasKeyword(answer, keyword))
+  );
+  const nextId = option?.next ?? step.next;
+  const next = nextId ? findStep(flow, nextId) : undefined;
+
+  if (!next) {
+    if (++state.unclearAnswers > MAX_UNCLEAR_ANSWERS) {
+      delete chat.flow;
+      return null;
+    }
+    const messages = [botText('flowUnclear', chat.language)];
+    if (step.text) messages.push(localize(step.text, chat.language));
+    return { flowId: flow.id, messages };
+  }
+
+  state.answers[step.id] = option?.answer ?? answer;
+  return enterStep(chat, flow, next, now);
+}
+
+/**
+ * Runs the customer's message through the chat's flow, or starts the flow it
+ * triggers. Null when the message is not for a flow and should be answered
+ * as usual. Changes chat.flow; the caller saves the chat.
+ */
+export function handleFlowMessage(
+  chat: ChatState,
+  text: string,
+  now = Date.now()
+): FlowReply | null {
+  if (chat.flow) {
+    const flow = flowsById.get(chat.flow.flowId);
+    const step = flow && findStep(flow, chat.flow.stepId);
+    if (flow && step && !isExpired(flow, chat.flow, now)) {
+      return answerStep(chat, flow, step, text, now);
+    }
+    // Timed out, or the flow changed since the chat entered it
+    delete chat.flow;
+  }
+
+  const flow = findFlowTrigger(text);
+  if (!flow) return null;
+  chat.flow = {
+    flowId: flow.id,
+    stepId: flow.steps[0].id,
+    startedAt: now,
+    stepStartedAt: now,
+    answers: {},
+    unclearAnswers: 0,
+  };
+  return enterStep(chat, flow, flow.steps[0], now);
+}
+
+/** The flow definitions, for listing them. */
+export function listFlows(): Flow[] {
+  return flows;
+}
@@ -1,14 +1,296 @@
 // getAutoReply.ts
+// Matches customer text against the auto-reply rules. The server hands the
+// current rules over with setAutoReplies whenever they change; until then,
+// and in the older servers, the built-in autoReplies are used.
+//
+// Every rule is scored: each keyword found adds 1, less for fuzzy matches.
+// Rules with an exclude keyword in the text are skipped. Among the rules that
+// match, the highest priority wins, then the highest score, then the first
+// rule in order.
+//
+// Keywords of every translation are checked whatever the chat's language, so
+// a customer writing in Polish to an English chat still gets an answer; the
+// reply is given in the chat's language when the rule has it.
 import { autoReplies } from "./autoreplies.js";
+import type { AutoReplyMatchMode, AutoReplyRule, Locale } from "./types.js";
 
-export function getAutoReply(text: string): string | null {
-  const normalized = text.toLowerCase();
+type MatchableRule = Pick<AutoReplyRule, "keywords" | "reply"> &
+  Partial<
+    Pick<
+      AutoReplyRule,
+      "id" | "mode" | "excludeKeywords" | "priority" | "translations"
+    >
+  >;
 
-  for (const { keywords, reply } of autoReplies) {
-    if (keywords.some((kw) => normalized.includes(kw))) {
-      return reply;
+export interface KeywordMatch {
+  keyword: string;
+  mode: AutoReplyMatchMode;
+  locale?: Locale; // Set for keywords of a translation
+  found: string; // The text that matched
+  distance?: number; // Typos allowed for a fuzzy match
+}
+
+export interface AutoReplyMatch {
+  reply: string;
+  locale?: Locale; // Language of the reply; unset for the rule's own reply
+  ruleId?: string;
+  priority: number;
+  score: number;
+  matches: KeywordMatch[];
+}
+
+// Longest regex keyword; customer text is matched against every one
+const MAX_REGEX_LENGTH = 100;
+
+let activeRules: MatchableRule[] = autoReplies;
+// Patterns of the active rules; cleared when the rules change
+const regexCache = new Map<string, RegExp | null>();
+
+/** Replaces the rules getAutoReply checks, in the order ties are broken. */
+export function setAutoReplies(rules: MatchableRule[]) {
+  activeRules = rules;
+  regexCache.clear();
+}
+
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function cachedRegex(source: string): RegExp | null {
+  if (!regexCache.has(source)) {
+    try {
+      regexCache.set(source, new RegExp(source, "iu"));
+    } catch {
+      regexCache.set(source, null);
+    }
+  }
+  return regexCache.get(source)!;
+}
+
+// Whether a repeated group repeats something itself or has alternatives,
+// like (a+)+, (\w*)* or (a|aa)+. Such patterns can backtrack for minutes
+// on a text that almost matches.
+function hasRiskyRepeat(source: string): boolean {
+  // Whether each open group has a quantifier or an alternative
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+      // Skip the ? of (?:, (?=, (?!, (?<=, (?<! and (?<name>
+      const prefix = source.slice(i).match(/^\(\?(?:<[\w$]+>|<[=!]|[:=!])/);
+      if (prefix) i += prefix[0].length - 1;
+    } else if (char === ")") {
+      const varies = groups.pop() ?? false;
+      const repeated = /[*+{]/.test(source[i + 1] ?? "");
+      if (varies && repeated) return true;
+      if (groups.length && (varies || repeated)) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (/[*+?{|]/.test(char) && groups.length) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+function isSafeRegex(source: string) {
+  return source.length <= MAX_REGEX_LENGTH && !hasRiskyRepeat(source);
+}
+
+/**
+ * Throws if a regex keyword does not compile, is too long or could take
+ * too long to match. Used to validate rules.
+ */
+export function checkRegexKeyword(keyword: string) {
+  new RegExp(keyword, "iu");
+  if (keyword.length > MAX_REGEX_LENGTH) {
+    throw new Error(`longer than ${MAX_REGEX_LENGTH} characters`);
+  }
+  if (hasRiskyRepeat(keyword)) {
+    throw new Error(
+      "repeats a group that repeats or has alternatives, like (a+)+ or (a|b)+"
+    );
+  }
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Typos allowed in a word of this length
+function allowedTypos(length: number) {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Finds a keyword in the text. Fuzzy matches score less the more typos
+// they needed.
+function matchKeyword(
+  keyword: string,
+  mode: AutoReplyMatchMode,
+  text: string,
+  textWords: string[]
+): { match: KeywordMatch; score: number } | null {
+  if (mode === "regex") {
+    // Rules saved before patterns were checked may still be unsafe
+    const found = isSafeRegex(keyword) ? cachedRegex(keyword)?.exec(text) : null;
+    return found ? { match: { keyword, mode, found: found[0] }, score: 1 } : null;
+  }
+
+  if (mode === "word") {
+    const pattern = cachedRegex(
+      `(?<![\\p{L}\\p{N}])${escapeRegex(keyword.trim())}(?![\\p{L}\\p{N}])`
+    );
+    const found = pattern?.exec(text);
+    return found ? { match: { keyword, mode, found: found[0] }, score: 1 } : null;
+  }
+
+  // Fuzzy: compare the keyword's words with each run of as many text words
+  const keywordWords = words(keyword);
+  if (keywordWords.length === 0) return null;
+  let best: { match: KeywordMatch; score: number } | null = null;
+  for (let start = 0; start + keywordWords.length <= textWords.length; start++) {
+    let distance = 0;
+    let fits = true;
+    for (let k = 0; k < keywordWords.length && fits; k++) {
+      const max = allowedTypos(keywordWords[k].length);
+      const d = editDistance(keywordWords[k], textWords[start + k], max);
+      fits = d <= max;
+      distance += d;
     }
+    if (!fits) continue;
+
+    const score = 1 - distance / (keywordWords.join("").length + 1);
+    if (!best || score > best.score) {
+      const found = textWords.slice(start, start + keywordWords.length).join(" ");
+      best = { match: { keyword, mode, found, distance }, score };
+    }
+  }
+  return best;
+}
+
+/** Scores one rule against the text. Null if it does not match. */
+function matchRule(
+  rule: MatchableRule,
+  text: string,
+  textWords: string[],
+  locale?: Locale
+): AutoReplyMatch | null {
+  const mode = rule.mode || "word";
+  // Fuzzy rules exclude by whole words; a typo should not block a reply
+  const excludeMode = mode === "fuzzy" ? "word" : mode;
+  for (const keyword of rule.excludeKeywords || []) {
+    if (matchKeyword(keyword, excludeMode, text, textWords)) return null;
   }
 
-  return null;
+  const matches: KeywordMatch[] = [];
+  let score = 0;
+  const keywordSets: [Locale | undefined, string[]][] = [[undefined, rule.keywords]];
+  for (const [language, translation] of Object.entries(rule.translations || {})) {
+    keywordSets.push([language as Locale, translation?.keywords || []]);
+  }
+  const seen = new Set<string>();
+  for (const [keywordLocale, keywords] of keywordSets) {
+    for (const keyword of keywords) {
+      // The same word in two languages counts once
+      const key = `${mode}:${keyword.trim().toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const result = matchKeyword(keyword, mode, text, textWords);
+      if (result) {
+        matches.push(
+          keywordLocale ? { ...result.match, locale: keywordLocale } : result.match
+        );
+        score += result.score;
+      }
+    }
+  }
+  if (matches.length === 0) return null;
+
+  const translation = locale ? rule.translations?.[locale] : undefined;
+  return {
+    reply: translation?.reply || rule.reply,
+    locale: translation?.reply ? locale : undefined,
+    ruleId: rule.id,
+    priority: rule.priority || 0,
+    score,
+    matches,
+  };
+}
+
+/** Whether the text has the keyword as a whole word or phrase. */
+export function hasKeyword(text: string, keyword: string): boolean {
+  return !!matchKeyword(keyword, "word", text, []);
+}
+
+/**
+ * The best matching rule for the text, with why it matched. The reply is in
+ * the locale given if the rule is translated to it.
+ */
+export function matchAutoReply(
+  text: string,
+  locale?: Locale
+): AutoReplyMatch | null {
+  const textWords = words(text);
+  let best: AutoReplyMatch | null = null;
+
+  for (const rule of activeRules) {
+    const match = matchRule(rule, text, textWords, locale);
+    if (
+      match &&
+      (!best ||
+        match.priority > best.priority ||
+        (match.priority === best.priority && match.score > best.score))
+    ) {
+      best = match;
+    }
+  }
+
+  return best;
+}
+
+export function getAutoReply(text: string, locale?: Locale): string | null {
+  return matchAutoReply(text, locale)?.reply ?? null;
+}
+
+/** One line describing why a rule matched, for logs. */
+export function describeAutoReplyMatch(match: AutoReplyMatch): string {
+  const keywords = match.matches
+    .map(({ keyword, mode, found, distance, locale }) => {
+      const description =
+        mode === "fuzzy" && distance
+          ? `"${keyword}" ~ "${found}" (${distance} typo${distance === 1 ? "" : "s"})`
+          : `"${keyword}" (${mode})`;
+      return locale ? `${description} [${locale}]` : description;
+    })
+    .join(", ");
+  const reply = match.locale ? `, reply in ${match.locale}` : "";
+  return `rule ${match.ruleId || "built-in"} (priority ${match.priority}, score ${match.score.toFixed(2)}${reply}): ${keywords}`;
 }
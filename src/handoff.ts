@@ -0,0 +1,152 @@
+// handoff.ts
+// When the bot hands a chat to the agents. The customer can ask for a
+// person with one of the handoff phrases, in any language the bot speaks.
+// The bot also gives up on its own after HANDOFF_AFTER_FALLBACKS fallback
+// replies in a row, or when the same question is asked HANDOFF_AFTER_REPEATS
+// times in a row. The counts are kept on ChatState.escalation.
+import { SUPPORTED_LOCALES } from './language.js';
+import type { ChatState, HandoffReason, Locale } from './types.js';
+
+// Text that asks for a person, matched after lowercasing and trimming: the
+// whole text for `exact`, anywhere in it for `contains`
+export interface HandoffPhrases {
+  exact: string[];
+  contains: string[];
+}
+
+export interface HandoffPolicy {
+  phrases: Record<Locale, HandoffPhrases>;
+  maxFallbacks: number; // 0 never escalates on fallbacks
+  maxRepeats: number; // 0 never escalates on repeated questions
+}
+
+const DEFAULT_PHRASES: Record<Locale, HandoffPhrases> = {
+  en: {
+    exact: ['agent'],
+    contains: ['talk to human', 'speak to human', 'human support'],
+  },
+  uk: {
+    exact: ['оператор', 'агент'],
+    contains: ['з людиною', 'живу людину', 'покличте оператора'],
+  },
+  pl: {
+    exact: ['konsultant', 'agent'],
+    contains: ['z człowiekiem', 'z konsultantem', 'żywego człowieka'],
+  },
+};
+
+// What agents are told about why the chat came to them
+const REASON_TEXT: Record<HandoffReason, string> = {
+  customer_request: 'Customer asked for an agent',
+  flow: 'Bot flow handed the chat over',
+  repeated_fallback: 'Bot did not understand several messages in a row',
+  repeated_question: 'Customer repeated the same question',
+};
+
+function phraseList(value: any): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((phrase): phrase is string => typeof phrase === 'string')
+    .map((phrase) => phrase.toLowerCase().trim())
+    .filter(Boolean);
+}
+
+// HANDOFF_PHRASES is JSON keyed by locale, e.g.
+// {"en": {"exact": ["agent"], "contains": ["talk to human"]}}. A locale or
+// list left out keeps its default.
+function phrasesFromEnv(raw?: string): Record<Locale, HandoffPhrases> {
+  const phrases = { ...DEFAULT_PHRASES };
+  if (!raw) return phrases;
+
+  let config: any;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    console.error('❌ HANDOFF_PHRASES is not valid JSON, using defaults:', error);
+    return phrases;
+  }
+  for (const locale of SUPPORTED_LOCALES) {
+    const custom = config?.[locale];
+    if (!custom) continue;
+    phrases[locale] = {
+      exact: phraseList(custom.exact) ?? DEFAULT_PHRASES[locale].exact,
+      contains: phraseList(custom.contains) ?? DEFAULT_PHRASES[locale].contains,
+    };
+  }
+  return phrases;
+}
+
+export function handoffPolicyFromEnv(): HandoffPolicy {
+  return {
+    phrases: phrasesFromEnv(process.env.HANDOFF_PHRASES),
+    maxFallbacks: Number(process.env.HANDOFF_AFTER_FALLBACKS ?? 2),
+    maxRepeats: Number(process.env.HANDOFF_AFTER_REPEATS ?? 3),
+  };
+}
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Whether the customer is asking for a person, in any language. */
+export function isHumanRequest(text: string, policy: HandoffPolicy): boolean {
+  const normalized = normalize(text);
+  return Object.values(policy.phrases).some(
+    ({ exact, contains }) =>
+      exact.includes(normalized) ||
+      contains.some((phrase) => normalized.includes(phrase))
+  );
+}
+
+/**
+ * Counts the question if it is the same as the customer's last one. Returns
+ * 'repeated_question' once it has been asked maxRepeats times in a row.
+ * Messages without text, like photos and files, are not counted.
+ * Changes chat.escalation; the caller saves the chat.
+ */
+export function noteQuestion(
+  chat: ChatState,
+  text: string,
+  policy: HandoffPolicy
+): HandoffReason | undefined {
+  const question = normalize(text);
+  if (!question) return undefined;
+  const escalation = chat.escalation || { fallbacks: 0, repeats: 0 };
+  escalation.repeats =
+    escalation.lastQuestion === question ? escalation.repeats + 1 : 1;
+  escalation.lastQuestion = question;
+  chat.escalation = escalation;
+
+  if (policy.maxRepeats > 0 && escalation.repeats >= policy.maxRepeats) {
+    return 'repeated_question';
+  }
+  return undefined;
+}
+
+/**
+ * Counts a message the bot could not answer, or resets the count when it
+ * could. Returns 'repeated_fallback' when the bot already fell back
+ * maxFallbacks times in a row, so this message goes to an agent instead.
+ */
+export function noteAnswer(
+  chat: ChatState,
+  answered: boolean,
+  policy: HandoffPolicy
+): HandoffReason | undefined {
+  const escalation = chat.escalation || { fallbacks: 0, repeats: 0 };
+  chat.escalation = escalation;
+  if (answered) {
+    escalation.fallbacks = 0;
+    return undefined;
+  }
+  if (policy.maxFallbacks > 0 && escalation.fallbacks >= policy.maxFallbacks) {
+    return 'repeated_fallback';
+  }
+  escalation.fallbacks++;
+  return undefined;
+}
+
+/** The reason as agents see it. */
+export function handoffReasonText(reason: HandoffReason): string {
+  return REASON_TEXT[reason];
+}
@@ -0,0 +1,231 @@
+// knowledgeBase.ts
+// FAQ articles the bot answers from when no auto-reply matches. Articles are
+// markdown files in one directory, each with a short header:
+//
+//   ---
+//   title: Plans and pricing
+//   language: en          (optional; only chats in this language get it)
+//   url: https://...      (optional; default KNOWLEDGE_BASE_URL/<file name>)
+//   ---
+//   Paragraphs of text...
+//
+// Every paragraph is indexed with BM25, in process, with the article's title
+// added to it. The best paragraph is the excerpt the bot sends. A match only
+// counts when enough of the question is in it: confidence is the share of the
+// question's terms, weighted by how rare they are, that the paragraph has.
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KnowledgeMatch, Locale } from './types.js';
+import { DEFAULT_LOCALE, toLocale } from './language.js';
+
+const K1 = 1.2;
+const B = 0.75;
+const EXCERPT_LENGTH = 400;
+// Paragraphs shorter than this, like headings, are joined to the next one
+const MIN_PASSAGE_LENGTH = 80;
+// Words are cut to this many letters, so "payments" finds "payment" and
+// inflected Ukrainian and Polish words find each other. Shorter English
+// words lose a plural "s".
+const STEM_LENGTH = 6;
+
+const STOPWORDS = new Set([
+  // en
+  'a', 'an', 'the', 'is', 'are', 'was', 'be', 'to', 'of', 'in', 'on', 'for',
+  'and', 'or', 'i', 'you', 'we', 'it', 'my', 'your', 'our', 'me', 'do',
+  'does', 'can', 'how', 'what', 'when', 'where', 'why', 'with', 'this',
+  'that', 'there', 'have', 'has', 'hi', 'hello', 'please', 'thanks', 'much',
+  'many', 'about', 'any', 'get',
+  // uk
+  'і', 'й', 'та', 'в', 'у', 'на', 'з', 'до', 'що', 'як', 'це', 'я', 'ви',
+  'ми', 'мій', 'моя', 'чи', 'не', 'для', 'привіт',
+  // pl
+  'i', 'w', 'z', 'na', 'do', 'jak', 'co', 'to', 'jest', 'czy', 'nie', 'się',
+  'mój', 'moja', 'dla', 'że', 'cześć',
+]);
+
+export interface KnowledgeArticle {
+  id: string; // File name without extension
+  title: string;
+  url?: string;
+  language?: Locale;
+  body: string;
+}
+
+interface Passage {
+  article: KnowledgeArticle;
+  text: string;
+  terms: Map<string, number>; // Term counts
+  length: number;
+}
+
+export interface KnowledgeBase {
+  articles(): KnowledgeArticle[];
+  /** The best matches for the text, best first, whatever their confidence. */
+  search(text: string, locale?: Locale, limit?: number): KnowledgeMatch[];
+}
+
+function stem(word: string) {
+  if (word.length > STEM_LENGTH) return word.slice(0, STEM_LENGTH);
+  return /^[a-z]{3,}s$/.test(word) && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+}
+
+/** Lowercase word stems without stopwords. */
+export function knowledgeTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => !STOPWORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(stem);
+}
+
+function countTerms(terms: string[]) {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) || 0) + 1);
+  return counts;
+}
+
+// Splits "---\nkey: value\n---\nbody" into its header and body
+function parseArticle(id: string, raw: string, baseUrl?: string) {
+  const header: Record<string, string> = {};
+  let body = raw;
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (match) {
+    for (const line of match[1].split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        header[line.slice(0, separator).trim().toLowerCase()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+    body = raw.slice(match[0].length);
+  }
+
+  const article: KnowledgeArticle = {
+    id,
+    title: header.title || id,
+    url: header.url || (baseUrl ? `${baseUrl.replace(/\/$/, '')}/${id}` : undefined),
+    language: toLocale(header.language),
+    body: body.trim(),
+  };
+  return article;
+}
+
+function splitPassages(article: KnowledgeArticle): string[] {
+  const passages: string[] = [];
+  let pending = '';
+  for (const paragraph of article.body.split(/\r?\n\s*\r?\n/)) {
+    const text = paragraph.replace(/^#+\s*/gm, '').trim();
+    if (!text) continue;
+    pending = pending ? `${pending}\n${text}` : text;
+    if (pending.length >= MIN_PASSAGE_LENGTH) {
+      passages.push(pending);
+      pending = '';
+    }
+  }
+  if (pending) passages.push(pending);
+  return passages;
+}
+
+function excerpt(text: string) {
+  if (text.length <= EXCERPT_LENGTH) return text;
+  const cut = text.slice(0, EXCERPT_LENGTH);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return sentenceEnd > EXCERPT_LENGTH / 2
+    ? cut.slice(0, sentenceEnd + 1)
+    : `${cut.slice(0, cut.lastIndexOf(' '))}…`;
+}
+
+export function createKnowledgeBase(articles: KnowledgeArticle[]): KnowledgeBase {
+  const passages: Passage[] = articles.flatMap((article) =>
+    splitPassages(article).map((text) => {
+      const terms = knowledgeTerms(`${article.title}\n${text}`);
+      return { article, text, terms: countTerms(terms), length: terms.length };
+    })
+  );
+  const documentFrequency = new Map<string, number>();
+  for (const passage of passages) {
+    for (const term of passage.terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const averageLength =
+    passages.reduce((sum, passage) => sum + passage.length, 0) /
+      passages.length || 1;
+
+  // Terms in no passage get the highest weight, so an unknown word lowers
+  // the confidence of every match
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) || 0;
+    return Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    articles: () => articles,
+
+    search(text, locale, limit = 3) {
+      const queryTerms = Array.from(new Set(knowledgeTerms(text)));
+      if (queryTerms.length === 0) return [];
+      const totalWeight = queryTerms.reduce((sum, term) => sum + idf(term), 0);
+
+      const best = new Map<string, KnowledgeMatch>();
+      for (const passage of passages) {
+        const { article } = passage;
+        if (article.language && article.language !== (locale || DEFAULT_LOCALE)) {
+          continue;
+        }
+
+        let score = 0;
+        let matchedWeight = 0;
+        for (const term of queryTerms) {
+          const count = passage.terms.get(term);
+          if (!count) continue;
+          const weight = idf(term);
+          matchedWeight += weight;
+          score +=
+            (weight * count * (K1 + 1)) /
+            (count + K1 * (1 - B + (B * passage.length) / averageLength));
+        }
+        if (score === 0) continue;
+
+        // One match per article, from its best paragraph
+        const previous = best.get(article.id);
+        if (previous && previous.score >= score) continue;
+        best.set(article.id, {
+          articleId: article.id,
+          title: article.title,
+          url: article.url,
+          excerpt: excerpt(passage.text),
+          score: Math.round(score * 1000) / 1000,
+          confidence: Math.round((matchedWeight / totalWeight) * 1000) / 1000,
+        });
+      }
+
+      return Array.from(best.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+/** Reads every .md file in the directory. A missing directory is empty. */
+export async function loadKnowledgeBase(
+  dir: string,
+  baseUrl?: string
+): Promise<KnowledgeBase> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(dir)).filter((file) => file.endsWith('.md'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    console.log(`ℹ️ No knowledge base at ${dir}`);
+  }
+
+  const articles: KnowledgeArticle[] = [];
+  for (const file of files.sort()) {
+    const raw = await fs.readFile(path.join(dir, file), 'utf8');
+    articles.push(parseArticle(path.basename(file, '.md'), raw, baseUrl));
+  }
+  console.log(`📚 Loaded ${articles.length} knowledge base articles from ${dir}`);
+  return createKnowledgeBase(articles);
+}
@@ -0,0 +1,60 @@
+// language.ts
+// Works out which language to answer a chat in. Telegram reports the user's
+// app language and the web widget may send the browser's; both are only a
+// hint, so the first customer messages are checked as well and the language
+// they are written in wins.
+import type { Locale } from './types.js';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'uk', 'pl'];
+
+// Customer messages checked before the chat's language is settled
+export const LANGUAGE_DETECTION_MESSAGES = 3;
+
+const POLISH_LETTERS = /[ąćęłńóśźż]/iu;
+const CYRILLIC_LETTER = /\p{Script=Cyrillic}/u;
+const LETTER = /\p{L}/u;
+
+// Short, common words that give a language away. Words that are also
+// English, like 'to' and 'co', are left out: they would tie "how to pay".
+const COMMON_WORDS: Record<Exclude<Locale, 'uk'>, Set<string>> = {
+  en: new Set([
+    'the', 'is', 'are', 'and', 'you', 'your', 'what', 'how', 'can', 'do',
+    'does', 'hello', 'hi', 'hey', 'thanks', 'please', 'price', 'help', 'want',
+    'need', 'my', 'have', 'with', 'for', 'this', 'that', 'there',
+  ]),
+  pl: new Set([
+    'jest', 'nie', 'tak', 'czy', 'jak', 'ile', 'mam', 'mój', 'moja',
+    'się', 'jestem', 'proszę', 'dzień', 'dobry', 'cześć', 'dziękuję',
+    'dzięki', 'cena', 'pomoc', 'chcę', 'potrzebuję', 'witam', 'mogę',
+  ]),
+};
+
+/** Matches a language tag like 'uk', 'pl-PL' or 'en_US' to a supported locale. */
+export function toLocale(tag: unknown): Locale | undefined {
+  if (typeof tag !== 'string') return undefined;
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  // Telegram and older browsers sometimes report Ukrainian as 'ua'
+  const locale = language === 'ua' ? 'uk' : language;
+  return SUPPORTED_LOCALES.find((supported) => supported === locale);
+}
+
+/** The language a message is written in, or undefined if it cannot tell. */
+export function detectLanguage(text: string): Locale | undefined {
+  const letters = [...text].filter((char) => LETTER.test(char));
+  if (letters.length === 0) return undefined;
+
+  // Ukrainian is the only Cyrillic language the bot speaks
+  const cyrillic = letters.filter((char) => CYRILLIC_LETTER.test(char));
+  if (cyrillic.length * 2 > letters.length) return 'uk';
+  if (POLISH_LETTERS.test(text)) return 'pl';
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const hits = (locale: keyof typeof COMMON_WORDS) =>
+    words.filter((word) => COMMON_WORDS[locale].has(word)).length;
+  const en = hits('en');
+  const pl = hits('pl');
+  if (pl > en) return 'pl';
+  if (en > pl) return 'en';
+  return undefined;
+}
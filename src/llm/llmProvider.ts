@@ -0,0 +1,81 @@
+// llmProvider.ts
+// Chat models the AI tier can use (see aiReply.ts). Every backend takes a
+// conversation and returns the model's answer; which one runs, and its model,
+// temperature and token limit, are set per deployment:
+//
+//   openai             OpenAI's API, with AI_API_KEY or OPENAI_API_KEY
+//   openai-compatible  any server speaking the same API at AI_BASE_URL, such
+//                      as llama.cpp or Ollama (http://localhost:11434/v1)
+//   mock               answers without a network, the same way every time
+import { createOpenAIProvider } from './openAIProvider.js';
+import { createMockProvider } from './mockProvider.js';
+
+export type LLMProviderKind = 'openai' | 'openai-compatible' | 'mock';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+  /** The model's answer to the conversation. Throws when the backend fails. */
+  complete(messages: LLMMessage[]): Promise<string>;
+}
+
+export interface LLMProviderOptions {
+  kind: LLMProviderKind;
+  model?: string; // Default per kind
+  temperature: number;
+  maxTokens: number;
+  apiKey?: string;
+  baseUrl?: string; // Required for 'openai-compatible'
+  timeoutMs: number; // Per request; a late answer is no use to the customer
+  maxRetries: number;
+}
+
+const PROVIDER_KINDS: LLMProviderKind[] = ['openai', 'openai-compatible', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderKind, string> = {
+  openai: 'gpt-3.5-turbo',
+  'openai-compatible': 'llama3',
+  mock: 'mock',
+};
+
+export function llmOptionsFromEnv(): LLMProviderOptions {
+  const kind = (process.env.AI_PROVIDER || 'openai') as LLMProviderKind;
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new Error(
+      `AI_PROVIDER must be one of: ${PROVIDER_KINDS.join(', ')}`
+    );
+  }
+  return {
+    kind,
+    model: process.env.AI_MODEL,
+    temperature: Number(process.env.AI_TEMPERATURE ?? 0.7),
+    maxTokens: Number(process.env.AI_MAX_TOKENS ?? 300),
+    apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.AI_BASE_URL,
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS ?? 15000),
+    maxRetries: Number(process.env.AI_MAX_RETRIES ?? 1),
+  };
+}
+
+export function createLLMProvider(options: LLMProviderOptions): LLMProvider {
+  const model = options.model || DEFAULT_MODELS[options.kind];
+  switch (options.kind) {
+    case 'openai':
+      if (!options.apiKey) {
+        throw new Error('OpenAI provider requires AI_API_KEY or OPENAI_API_KEY');
+      }
+      return createOpenAIProvider('openai', { ...options, model });
+    case 'openai-compatible':
+      if (!options.baseUrl) {
+        throw new Error('OpenAI-compatible provider requires AI_BASE_URL');
+      }
+      return createOpenAIProvider('openai-compatible', { ...options, model });
+    default:
+      return createMockProvider(model);
+  }
+}
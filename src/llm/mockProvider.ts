@@ -0,0 +1,23 @@
+// mockProvider.ts
+// Offline backend for development and tests: answers by quoting the last
+// customer message, so the same conversation always gets the same answer.
+// It cites the first source listed in the system prompt, if there is one.
+import type { LLMProvider } from './llmProvider.js';
+
+export function createMockProvider(model: string): LLMProvider {
+  return {
+    kind: 'mock',
+    model,
+
+    async complete(messages) {
+      const question = [...messages]
+        .reverse()
+        .find((message) => message.role === 'user');
+      const source = messages
+        .find((message) => message.role === 'system')
+        ?.content.match(/^\[(\d+)\]/m);
+      const citation = source ? ` [${source[1]}]` : '';
+      return `🧪 Mock answer to: "${question?.content ?? ''}"${citation}`;
+    },
+  };
+}
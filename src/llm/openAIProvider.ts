@@ -0,0 +1,37 @@
+// openAIProvider.ts
+// OpenAI's chat completions API, or any server that speaks it at another
+// base URL. Local servers usually ignore the API key, but the client needs one.
+import OpenAI from 'openai';
+import type {
+  LLMProvider,
+  LLMProviderKind,
+  LLMProviderOptions,
+} from './llmProvider.js';
+
+export function createOpenAIProvider(
+  kind: Extract<LLMProviderKind, 'openai' | 'openai-compatible'>,
+  options: LLMProviderOptions & { model: string }
+): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey || 'not-needed',
+    ...(options.baseUrl && { baseURL: options.baseUrl }),
+    // The client's defaults are 10 minutes and 2 retries
+    timeout: options.timeoutMs,
+    maxRetries: options.maxRetries,
+  });
+
+  return {
+    kind,
+    model: options.model,
+
+    async complete(messages) {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      });
+      return response.choices[0]?.message?.content?.trim() || '';
+    },
+  };
+}
@@ -0,0 +1,175 @@
+// privacy.ts
+// Data-subject requests from customers: export everything stored about a
+// user, or erase it. A user's data is every chat whose userId (web) or
+// telegramUserId (Telegram) matches, the full message history of those chats
+// and the files uploaded under each chat's folder in the files bucket.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatStore } from './store/chatStore.js';
+import type { ChatState, Message, PrivacyAuditRecord } from './types.js';
+
+const STORAGE_PAGE_SIZE = 1000;
+// Exported file links stay valid this long
+const EXPORT_URL_TTL_SECONDS = 24 * 60 * 60;
+
+// Telegram file URLs carry the bot token, which must not leave the server
+const BOT_TOKEN_PATTERN = /\/bot\d+:[\w-]+\//;
+
+export interface ExportedFile {
+  path: string;
+  size?: number;
+  createdAt?: string;
+  url: string | null;
+}
+
+export interface ExportedChat {
+  id: string;
+  chat: Omit<ChatState, 'messages'> | null; // null if only messages remain
+  messages: Message[];
+  files: ExportedFile[];
+}
+
+export interface UserDataExport {
+  userId: string;
+  exportedAt: string;
+  chats: ExportedChat[];
+}
+
+export interface PrivacyService {
+  exportUserData(userId: string, requestedBy?: string): Promise<UserDataExport>;
+  /** Deletes the user's chats, messages and files. Returns the deleted chat IDs. */
+  eraseUserData(userId: string, requestedBy?: string): Promise<string[]>;
+}
+
+function redactMessage(message: Message): Message {
+  if (!message.fileUrl || !BOT_TOKEN_PATTERN.test(message.fileUrl)) {
+    return message;
+  }
+  return {
+    ...message,
+    fileUrl: message.fileUrl.replace(BOT_TOKEN_PATTERN, '/bot<redacted>/'),
+  };
+}
+
+export function createPrivacyService(
+  chatStore: ChatStore,
+  supabase: SupabaseClient,
+  filesBucket: string
+): PrivacyService {
+  // Paths of all files uploaded for a chat (see uploadFileToSupabase)
+  async function listChatFiles(chatId: string) {
+    const files: { path: string; size?: number; createdAt?: string }[] = [];
+    for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(filesBucket)
+        .list(chatId, { limit: STORAGE_PAGE_SIZE, offset });
+      if (error) throw error;
+
+      for (const file of data || []) {
+        files.push({
+          path: `${chatId}/${file.name}`,
+          size: file.metadata?.size,
+          createdAt: file.created_at,
+        });
+      }
+      if (!data || data.length < STORAGE_PAGE_SIZE) break;
+    }
+    return files;
+  }
+
+  async function exportChat(chatId: string): Promise<ExportedChat> {
+    // Exporting should not bring archived or evicted chats back into memory
+    const state = await chatStore.peek(chatId);
+    const messages = await chatStore.loadHistory(chatId);
+    const files = await listChatFiles(chatId);
+
+    const exportedFiles: ExportedFile[] = [];
+    for (const file of files) {
+      const { data } = await supabase.storage
+        .from(filesBucket)
+        .createSignedUrl(file.path, EXPORT_URL_TTL_SECONDS);
+      exportedFiles.push({ ...file, url: data?.signedUrl || null });
+    }
+
+    let chat: ExportedChat['chat'] = null;
+    if (state) {
+      const { messages: _latest, ...fields } = state;
+      chat = fields;
+    }
+    return {
+      id: chatId,
+      chat,
+      messages: messages.map(redactMessage),
+      files: exportedFiles,
+    };
+  }
+
+  // Writes the audit record for a request, whether it worked or not
+  async function audited<T>(
+    action: PrivacyAuditRecord['action'],
+    userId: string,
+    requestedBy: string | undefined,
+    run: (record: PrivacyAuditRecord) => Promise<T>
+  ): Promise<T> {
+    const record: PrivacyAuditRecord = {
+      action,
+      subjectId: userId,
+      requestedBy,
+      requestedAt: Date.now(),
+      chatIds: [],
+      messageCount: 0,
+      fileCount: 0,
+      outcome: 'completed',
+    };
+    try {
+      return await run(record);
+    } catch (error: any) {
+      record.outcome = 'failed';
+      record.error = error?.message || String(error);
+      throw error;
+    } finally {
+      await chatStore.recordPrivacyRequest(record);
+      console.log(
+        `🔏 Privacy ${action} for user ${userId}: ${record.outcome} (${record.chatIds.length} chats, ${record.messageCount} messages, ${record.fileCount} files)`
+      );
+    }
+  }
+
+  return {
+    exportUserData(userId, requestedBy) {
+      return audited('export', userId, requestedBy, async (record) => {
+        record.chatIds = await chatStore.findChatIdsByUser(userId);
+
+        const chats: ExportedChat[] = [];
+        for (const chatId of record.chatIds) {
+          const chat = await exportChat(chatId);
+          record.messageCount += chat.messages.length;
+          record.fileCount += chat.files.length;
+          chats.push(chat);
+        }
+        return { userId, exportedAt: new Date().toISOString(), chats };
+      });
+    },
+
+    eraseUserData(userId, requestedBy) {
+      return audited('erase', userId, requestedBy, async (record) => {
+        record.chatIds = await chatStore.findChatIdsByUser(userId);
+
+        for (const chatId of record.chatIds) {
+          const files = await listChatFiles(chatId);
+          if (files.length > 0) {
+            const { error } = await supabase.storage
+              .from(filesBucket)
+              .remove(files.map((file) => file.path));
+            if (error) throw error;
+            record.fileCount += files.length;
+          }
+
+          const messages = await chatStore.loadHistory(chatId);
+          record.messageCount += messages.length;
+          await chatStore.delete(chatId);
+        }
+        return record.chatIds;
+      });
+    },
+  };
+}
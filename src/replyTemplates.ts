@@ -0,0 +1,119 @@
+// replyTemplates.ts
+// Placeholders in auto-reply texts, filled per chat when the reply is sent:
+//
+//   {{firstName}}            the value, or nothing when it is unknown
+//   {{plan|your plan}}       the value, or the text after the bar
+//   {{#trial}}...{{/trial}}  shown only when the value is known
+//   {{^plan}}...{{/plan}}    shown only when it is not
+//
+// Names come from the chat and from the customer's organization and
+// subscription, which the server looks up for chats with a userId.
+// `trial` is set while the subscription is trialing. `open` is set while the
+// team is on shift; `businessHours` and `nextOpening` describe the schedule
+// (see businessHours.ts) and are unset when the team is always on shift.
+
+export interface ReplyVariables {
+  firstName?: string;
+  lastName?: string;
+  orgName?: string;
+  plan?: string;
+  subscriptionStatus?: string;
+  businessHours?: string;
+  nextOpening?: string;
+  open?: boolean;
+}
+
+export const TEMPLATE_VARIABLES = [
+  'firstName',
+  'lastName',
+  'orgName',
+  'plan',
+  'subscriptionStatus',
+  'trial',
+  'businessHours',
+  'nextOpening',
+  'open',
+] as const;
+
+type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+// Variables that need the organization and subscription lookup
+const ACCOUNT_VARIABLES: TemplateVariable[] = [
+  'orgName',
+  'plan',
+  'subscriptionStatus',
+  'trial',
+];
+
+const TRIAL_STATUSES = ['trialing', 'trial'];
+
+const SECTION = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+const TAG = /\{\{\s*[#^/]?\s*(\w+)/g;
+
+function templateValues(variables: ReplyVariables) {
+  const status = variables.subscriptionStatus?.trim().toLowerCase();
+  const values: Record<string, string | undefined> = {
+    ...variables,
+    open: variables.open ? 'yes' : undefined,
+    trial: status && TRIAL_STATUSES.includes(status) ? 'yes' : undefined,
+  };
+  for (const [name, value] of Object.entries(values)) {
+    if (!value?.trim()) delete values[name];
+  }
+  return values;
+}
+
+function renderSections(
+  template: string,
+  values: Record<string, string | undefined>
+): string {
+  return template.replace(SECTION, (_, kind, name, body) => {
+    const shown = kind === '#' ? !!values[name] : !values[name];
+    return shown ? renderSections(body, values) : '';
+  });
+}
+
+/** Whether the text has any {{...}} tags. */
+export function hasTemplateTags(text: string): boolean {
+  return /\{\{[\s\S]*?\}\}/.test(text);
+}
+
+/** Whether filling the text needs the customer's organization lookup. */
+export function usesAccountVariables(text: string): boolean {
+  return Array.from(text.matchAll(TAG)).some(([, name]) =>
+    ACCOUNT_VARIABLES.includes(name as TemplateVariable)
+  );
+}
+
+/** The text with its placeholders filled in. */
+export function renderReplyTemplate(
+  template: string,
+  variables: ReplyVariables
+): string {
+  const values = templateValues(variables);
+  return renderSections(template, values)
+    .replace(VARIABLE, (_, name, fallback) => values[name] ?? fallback ?? '')
+    .trim();
+}
+
+/** Why the text is not a valid template, or undefined if it is. */
+export function checkReplyTemplate(template: string): string | undefined {
+  for (const [, name] of template.matchAll(TAG)) {
+    if (!TEMPLATE_VARIABLES.includes(name as TemplateVariable)) {
+      return `Unknown variable {{${name}}}; use one of: ${TEMPLATE_VARIABLES.join(', ')}`;
+    }
+  }
+  // Rendered with every value missing, then with every value set, each
+  // section is opened once; an unclosed one leaves its tag behind
+  const allSet = Object.fromEntries(
+    TEMPLATE_VARIABLES.map((name) => [name, name])
+  );
+  const leftover = [{}, allSet].some((values) =>
+    renderSections(template, values).replace(VARIABLE, '').includes('{{')
+  );
+  if (leftover) {
+    return 'Every {{#name}} or {{^name}} section needs a matching {{/name}}';
+  }
+  return undefined;
+}
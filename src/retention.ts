@@ -0,0 +1,72 @@
+// retention.ts
+// Keeps the server's memory bounded. Each chat keeps at most
+// maxMessagesInMemory messages in memory (enforced by the chat store on every
+// append), and this sweeper evicts chats nobody has written to for idleTtlMs.
+// Evicted chats stay in the file or Supabase store and are fetched again
+// when someone writes to them. Nothing is evicted from the memory store,
+// where that would lose the chat, nor chats still waiting for an agent or
+// that the routing maps point at.
+//
+// Eviction only frees memory: evicted chats are not archived, so a restart
+// loads the ones that are not closed again.
+import type { ChatStore } from './store/chatStore.js';
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface RetentionPolicy {
+  idleTtlMs: number; // 0 never evicts
+  maxMessagesInMemory: number; // 0 keeps all
+}
+
+export function retentionPolicyFromEnv(): RetentionPolicy {
+  return {
+    idleTtlMs: Number(process.env.CHAT_MEMORY_TTL_HOURS ?? 48) * 60 * 60 * 1000,
+    maxMessagesInMemory: Number(process.env.CHAT_MEMORY_MAX_MESSAGES ?? 200),
+  };
+}
+
+/**
+ * Evicts idle chats now, except those in routedChatIds. Returns how many
+ * were evicted.
+ */
+export function sweepIdleChats(
+  store: ChatStore,
+  policy: RetentionPolicy,
+  routedChatIds: Set<string> = new Set()
+): number {
+  if (policy.idleTtlMs <= 0 || store.kind === 'memory') return 0;
+
+  const cutoff = Date.now() - policy.idleTtlMs;
+  let evicted = 0;
+  for (const [chatId, chat] of store.entries()) {
+    if (
+      chat.lastActivityAt < cutoff &&
+      !chat.queuedAt &&
+      !routedChatIds.has(chatId)
+    ) {
+      store.evict(chatId);
+      evicted++;
+    }
+  }
+  return evicted;
+}
+
+/**
+ * Runs sweepIdleChats periodically, asking routedChatIds for the chats to
+ * keep each time. Returns the timer.
+ */
+export function startRetentionSweeper(
+  store: ChatStore,
+  policy: RetentionPolicy,
+  routedChatIds: () => Set<string>
+): NodeJS.Timeout {
+  return setInterval(() => {
+    const evicted = sweepIdleChats(store, policy, routedChatIds());
+    if (evicted > 0) {
+      const heapMb = Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
+      console.log(
+        `🧹 Evicted ${evicted} idle chats from memory (${store.size} left, heap ${heapMb} MB)`
+      );
+    }
+  }, SWEEP_INTERVAL_MS);
+}
@@ -1,4 +1,5 @@
 import express from 'express';
+import { randomUUID } from 'crypto';
 import bodyParser from 'body-parser';
 import axios from 'axios';
 import dotenv from 'dotenv';
@@ -6,7 +7,82 @@ import http from 'http';
 import { Server as IOServer } from 'socket.io';
 import cors from 'cors';
 import { createClient } from '@supabase/supabase-js';
-import { getAutoReply } from './getAutoReplies.js';
+import { describeAutoReplyMatch, matchAutoReply } from './getAutoReplies.js';
+import { createChatStore, ChatStoreKind } from './store/chatStore.js';
+import { createAgentRoster } from './agentRoster.js';
+import { createAgentRouter } from './agentRoutes.js';
+import {
+  createAutoReplyRules,
+  parseAutoReplyInput,
+  startAutoReplyReloader,
+} from './autoReplyRules.js';
+import {
+  isActiveChat,
+  shouldReopen,
+  startAutoCloseSweeper,
+  statusAfterTakeover,
+} from './chatLifecycle.js';
+import { createPrivacyService } from './privacy.js';
+import { createDashboardAuth, describeAgent } from './dashboardAuth.js';
+import { searchSnippet, searchTerms } from './chatSearch.js';
+import { toChatSummary } from './chatSummary.js';
+import {
+  botText,
+  MENU_QUICK_REPLIES,
+  quickReplyAnswer,
+  quickReplyButtons,
+} from './botMessages.js';
+import { handleFlowMessage, listFlows } from './flows.js';
+import {
+  handoffPolicyFromEnv,
+  handoffReasonText,
+  isHumanRequest,
+  noteAnswer,
+  noteQuestion,
+} from './handoff.js';
+import { summarizeBotDecisions } from './botAnalytics.js';
+import { createKnowledgeBase, loadKnowledgeBase } from './knowledgeBase.js';
+import {
+  getAIReply,
+  getChatSummary,
+  getSuggestedReply,
+} from './aiReply.js';
+import {
+  accountSource,
+  aiSourceRef,
+  findAISources,
+  type AISource,
+} from './aiSources.js';
+import { createLLMProvider, llmOptionsFromEnv } from './llm/llmProvider.js';
+import {
+  businessHoursFromEnv,
+  describeBusinessHours,
+  formatOpening,
+  isOpen,
+  nextOpening,
+  startOpeningWatcher,
+} from './businessHours.js';
+import {
+  hasTemplateTags,
+  renderReplyTemplate,
+  usesAccountVariables,
+} from './replyTemplates.js';
+import { detectLanguage, LANGUAGE_DETECTION_MESSAGES, toLocale } from './language.js';
+import type { ChatSearchHit } from './chatSearch.js';
+import { retentionPolicyFromEnv, startRetentionSweeper, sweepIdleChats } from './retention.js';
+import type {
+  BotDecision,
+  BotDecisionOutcome,
+  ChatState,
+  ChatStatus,
+  CustomerAccount,
+  HandoffReason,
+  KnowledgeMatch,
+  Locale,
+  Message,
+  QuickReply,
+  TelegramMessageRef,
+} from './types.js';
 
 dotenv.config();
 
@@ -15,6 +91,58 @@ const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN
   ? process.env.FRONTEND_ORIGIN.split(',').map(o => o.trim())
   : ['http://localhost:8080'];
 const WEBHOOK_URL = process.env.BACKEND_URL || 'https://gerkobot.onrender.com';
+// Where chats are persisted: 'memory' (default), 'file' or 'supabase'
+const CHAT_STORE = (process.env.CHAT_STORE || 'memory') as ChatStoreKind;
+// Close chats with no activity for this many hours (0 disables auto-close)
+const CHAT_AUTO_CLOSE_HOURS = Number(process.env.CHAT_AUTO_CLOSE_HOURS ?? 24);
+// Idle TTL and per-chat message cap for chats kept in memory
+const RETENTION = retentionPolicyFromEnv();
+const HANDOFF = handoffPolicyFromEnv();
+const BUSINESS_HOURS = businessHoursFromEnv();
+// Chats listed in the summary sent at opening; the rest are counted
+const QUEUE_SUMMARY_MAX_CHATS = 20;
+// How often auto-reply rules are reloaded from the store (0 disables)
+const AUTOREPLY_RELOAD_SECONDS = Number(
+  process.env.AUTOREPLY_RELOAD_SECONDS ?? 60
+);
+// Messages per /api/chat/history page
+const HISTORY_PAGE_SIZE = 50;
+const HISTORY_MAX_PAGE_SIZE = 200;
+// Search results per request
+const SUPPORT_BOT_SEARCH_LIMIT = 10;
+const API_SEARCH_MAX_LIMIT = 50;
+const ANALYTICS_DEFAULT_DAYS = 30;
+// How long a customer's organization and subscription are reused in replies
+const CUSTOMER_ACCOUNT_CACHE_MINUTES = 10;
+// FAQ articles the bot answers from, see knowledgeBase.ts
+const KNOWLEDGE_BASE_DIR = process.env.KNOWLEDGE_BASE_DIR || './knowledge';
+const KNOWLEDGE_BASE_URL = process.env.KNOWLEDGE_BASE_URL;
+// Articles below this confidence (0-1) are not sent to customers
+const KNOWLEDGE_BASE_MIN_CONFIDENCE = Number(
+  process.env.KNOWLEDGE_BASE_MIN_CONFIDENCE ?? 0.6
+);
+// Generated answers when nothing else matched, see aiReply.ts
+const AI_REPLIES_ENABLED = process.env.AI_REPLIES_ENABLED === 'true';
+// Latest chat messages sent to the model, the customer's question included
+const AI_CONTEXT_MESSAGES = Number(process.env.AI_CONTEXT_MESSAGES ?? 10);
+// Rules and articles the model may answer from, see aiSources.ts. Lower than
+// the knowledge base threshold, since the model picks what is relevant.
+const AI_SOURCE_MIN_CONFIDENCE = Number(
+  process.env.AI_SOURCE_MIN_CONFIDENCE ?? 0.3
+);
+const AI_SOURCE_LIMIT = Number(process.env.AI_SOURCE_LIMIT ?? 3);
+// Drafted replies agents can send or edit, see suggestAgentReply
+const AI_SUGGESTIONS_ENABLED = process.env.AI_SUGGESTIONS_ENABLED === 'true';
+// How long a suggestion can still be sent with its button
+const SUGGESTION_TTL_MINUTES = 30;
+// A summary instead of the history when an agent opens a chat, see
+// sendOpenedChat
+const AI_SUMMARIES_ENABLED = process.env.AI_SUMMARIES_ENABLED === 'true';
+// Shorter chats are quicker to read than a summary
+const SUMMARY_MIN_MESSAGES = 6;
+const SUMMARY_MAX_MESSAGES = 50;
+// Messages replayed to an agent as the chat history
+const HISTORY_MESSAGES = 30;
 
 // Load Telegram tokens
 const TELEGRAM_CUSTOMER_TOKEN = process.env.TELEGRAM_BOT_TOKEN!;
@@ -28,8 +156,10 @@ const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL!;
 const supabaseKey =
   process.env.VITE_SUPABASE_PUBLISHABLE_KEY || process.env.SUPABASE_ANON_KEY!;
 const supabase = createClient(supabaseUrl, supabaseKey);
+// Uploaded chat files, one folder per chat ID
+const CHAT_FILES_BUCKET = 'Chat_Files_Storage';
 console.log("🚀 Server Version 99");
-console.log('💬 Using Telegram-only storage (no database)');
+console.log(`💬 Using ${CHAT_STORE} chat store`);
 console.log('📦 Supabase Storage initialized for file uploads');
 
 const app = express();
@@ -48,50 +178,99 @@ const io = new IOServer(server, {
 // =====================================================
 // TYPES & STATE
 // =====================================================
-interface Message {
-  from: 'user' | 'agent' | 'bot' | 'system';
-  text: string;
-  timestamp: number;
-  agentId?: string;
-  agentName?: string;
-  fileUrl?: string;
-  fileName?: string;
-  fileType?: string;
+const chatStore = createChatStore({
+  kind: CHAT_STORE,
+  filePath: process.env.CHAT_STORE_FILE,
+  supabase,
+  maxMessagesInMemory: RETENTION.maxMessagesInMemory,
+});
+const agentChatMap = new Map<number, string>(); // agent telegram ID → active chat ID
+const userChatMap = new Map<number, string>(); // Telegram user ID → current chat ID
+const agentRoster = createAgentRoster(chatStore); // Support agent profiles, joined via /start
+const autoReplyRules = createAutoReplyRules(chatStore); // Canned bot answers, see /api/autoreplies
+const privacy = createPrivacyService(chatStore, supabase, CHAT_FILES_BUCKET);
+// Bearer tokens on dashboard routes; these Supabase users are admins before
+// the roster has any
+const dashboardAuth = createDashboardAuth(
+  supabase,
+  agentRoster,
+  (process.env.DASHBOARD_ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+);
+// Any agent in the roster, whatever the role
+const requireAgent = dashboardAuth.requireRole('agent', 'lead', 'admin');
+// Chats an agent has open or a Telegram customer writes to; kept in memory
+function routedChatIds() {
+  return new Set([...agentChatMap.values(), ...userChatMap.values()]);
 }
-
-interface ChatState {
-  mode: 'bot' | 'human';
-  agentId?: string;
-  agentName?: string;
-  messages: Message[];
-  source: 'web' | 'telegram';
-  requestingHuman?: boolean;
-  userFirstName?: string;
-  userLastName?: string;
-  userId?: string;
-  telegramUserId?: number; // Telegram user ID for customer bot
-  createdAt: number;
-  lastActivityAt: number;
-  visited?: boolean; // Track if chat has been opened by an agent
+// Organization and subscription per chat, for reply templates
+const customerAccounts = new Map<
+  string,
+  { account: CustomerAccount; fetchedAt: number }
+>();
+// Model behind the AI tier, reply suggestions and chat summaries; a
+// misconfigured provider stops the server here
+const llm =
+  AI_REPLIES_ENABLED || AI_SUGGESTIONS_ENABLED || AI_SUMMARIES_ENABLED
+    ? createLLMProvider(llmOptionsFromEnv())
+    : null;
+// Suggested replies waiting for the agent to send them, by suggestion ID
+const replySuggestions = new Map<
+  string,
+  { chatId: string; text: string; agentTelegramId: number; createdAt: number }
+>();
+// FAQ answers, replaced once the articles are read at startup
+let knowledgeBase = createKnowledgeBase([]);
+
+// Save the routing maps so a restart keeps customers in their current chat
+// and agents in the chat they had open
+function persistRouting() {
+  chatStore.saveRouting({
+    agentChats: Array.from(agentChatMap.entries()),
+    userChats: Array.from(userChatMap.entries()),
+  });
 }
 
-const activeChats = new Map<string, ChatState>();
-const agentChatMap = new Map<number, string>(); // agent telegram ID → active chat ID
-const userChatMap = new Map<number, string>(); // Telegram user ID → current chat ID
-const registeredAgents = new Set<number>(); // Telegram IDs of registered support agents
+async function restoreRouting() {
+  const routing = await chatStore.loadRouting();
+  for (const [agentId, chatId] of routing.agentChats) {
+    agentChatMap.set(agentId, chatId);
+  }
+  for (const [telegramUserId, chatId] of routing.userChats) {
+    userChatMap.set(telegramUserId, chatId);
+  }
+  // Agents registered before the roster existed were only saved as IDs
+  for (const agentId of routing.registeredAgents || []) {
+    if (!agentRoster.get(agentId)) agentRoster.register(agentId, 'Agent');
+  }
+  console.log(
+    `🔁 Restored ${agentChatMap.size} open agent chats, ${userChatMap.size} customer chats`
+  );
+}
 
 // =====================================================
 // UTIL
 // =====================================================
-async function tgSend(botUrl: string, chatId: number | string, text: string) {
+// Returns the Telegram message_id of the sent message
+async function tgSend(
+  botUrl: string,
+  chatId: number | string,
+  text: string,
+  replyMarkup?: object
+): Promise<number | undefined> {
   try {
-    await axios.post(`${botUrl}/sendMessage`, {
+    const { data } = await axios.post(`${botUrl}/sendMessage`, {
       chat_id: chatId,
       text,
       parse_mode: 'HTML',
+      reply_markup: replyMarkup,
     });
+    return data.result?.message_id;
   } catch (error) {
     console.error(`Failed to send Telegram message to ${chatId}:`, error);
+    return undefined;
   }
 }
 
@@ -116,7 +295,7 @@ async function uploadFileToSupabase(
     const filePath = `${chatId}/${uniqueFileName}`;
     // Upload to Supabase Storage
     const { data, error } = await supabase.storage
-      .from('Chat_Files_Storage')
+      .from(CHAT_FILES_BUCKET)
       .upload(filePath, buffer, {
         cacheControl: '3600',
         upsert: false,
@@ -130,7 +309,7 @@ async function uploadFileToSupabase(
     // Create signed URL (expires in 60 seconds)
     const { data: signedUrlData, error: signedUrlError } =
       await supabase.storage
-        .from('Chat_Files_Storage')
+        .from(CHAT_FILES_BUCKET)
         .createSignedUrl(filePath, 60);
 
     if (signedUrlError) {
@@ -148,101 +327,997 @@ async function uploadFileToSupabase(
   }
 }
 
-// Message storage is now in-memory only via activeChats Map
-// All messages are stored in the ChatState.messages array
+// Chats are served from memory by chatStore and persisted by its backend.
+// Handlers that change a chat in place must call chatStore.save(chatId).
+
+// Dashboard takeovers may omit agentName; fall back to the roster profile
+function agentDisplayName(agentId?: string): string | undefined {
+  const telegramId = agentRoster.resolveTelegramId(agentId);
+  return telegramId !== undefined
+    ? agentRoster.get(telegramId)?.displayName
+    : undefined;
+}
 
 // Helper to emit chat event to dashboard
 function emitToDashboard(event: string, payload: any) {
   io.emit(event, payload);
 }
 
+// Keep the organization on the chat so agents can search by it
+function rememberOrganization(chatId: string, organizationName?: string) {
+  const chat = chatStore.get(chatId);
+  if (!chat || !organizationName || chat.organizationName === organizationName) {
+    return;
+  }
+  chat.organizationName = organizationName;
+  chatStore.save(chatId);
+}
+
+// Looks up the customer's organization and subscription (user_profiles →
+// organization → subscriptions). Empty for chats without a userId; what is
+// found is kept for CUSTOMER_ACCOUNT_CACHE_MINUTES for reply templates.
+async function fetchCustomerAccount(
+  chatId: string,
+  chat: ChatState
+): Promise<CustomerAccount> {
+  const account: CustomerAccount = {};
+  if (!chat.userId) return account;
+
+  try {
+    // First, get the user's profile to find organization_id
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('organization_id')
+      .eq('id', chat.userId)
+      .single();
+
+    if (!profileError && profile?.organization_id) {
+      // Get organization details
+      const { data: org, error: orgError } = await supabase
+        .from('organization')
+        .select('business_name')
+        .eq('id', profile.organization_id)
+        .single();
+
+      if (!orgError && org) {
+        account.organizationName = org.business_name || undefined;
+        rememberOrganization(chatId, org.business_name);
+
+        // Get subscription status and plan
+        const { data: subscription, error: subError } = await supabase
+          .from('subscriptions')
+          .select('*')
+          .eq('organization_id', profile.organization_id)
+          .single();
+
+        if (!subError && subscription) {
+          account.subscriptionStatus = subscription.status || undefined;
+          account.plan = subscription.plan || undefined;
+        } else if (subError) {
+          console.error('Error fetching subscription:', subError);
+        }
+      } else if (orgError) {
+        console.error('Error fetching organization:', orgError);
+      }
+    } else if (profileError) {
+      console.error('Error fetching user profile:', profileError);
+    }
+  } catch (error) {
+    console.error('Error fetching org info:', error);
+  }
+
+  customerAccounts.set(chatId, { account, fetchedAt: Date.now() });
+  return account;
+}
+
+// The customer's account as last looked up, if recent enough
+async function cachedCustomerAccount(chatId: string, chat: ChatState) {
+  const cached = customerAccounts.get(chatId);
+  if (
+    cached &&
+    Date.now() - cached.fetchedAt < CUSTOMER_ACCOUNT_CACHE_MINUTES * 60 * 1000
+  ) {
+    return cached.account;
+  }
+  return fetchCustomerAccount(chatId, chat);
+}
+
+// The schedule for reply templates; nextOpening only while off shift
+function businessHoursVariables(locale?: Locale) {
+  const open = isOpen(BUSINESS_HOURS);
+  const opening = open ? undefined : nextOpening(BUSINESS_HOURS);
+  return {
+    open,
+    businessHours: describeBusinessHours(BUSINESS_HOURS, locale),
+    nextOpening:
+      opening === undefined
+        ? undefined
+        : formatOpening(opening, BUSINESS_HOURS, locale),
+  };
+}
+
+// Fills the {{variables}} of an auto-reply for this chat, see replyTemplates.ts
+async function fillReplyTemplate(
+  chatId: string,
+  chat: ChatState,
+  template: string
+) {
+  if (!hasTemplateTags(template)) return template;
+  const account = usesAccountVariables(template)
+    ? await cachedCustomerAccount(chatId, chat)
+    : {};
+  return renderReplyTemplate(template, {
+    firstName: chat.userFirstName,
+    lastName: chat.userLastName,
+    orgName: account.organizationName ?? chat.organizationName,
+    plan: account.plan,
+    subscriptionStatus: account.subscriptionStatus,
+    ...businessHoursVariables(chat.language),
+  });
+}
+
+// Search results as shown by /api/chat/search and /search
+function describeSearchHit(hit: ChatSearchHit, terms: string[]) {
+  const chat = hit.chat;
+  return {
+    chatId: hit.chatId,
+    userName:
+      `${chat?.userFirstName || ''} ${chat?.userLastName || ''}`.trim() ||
+      'Anonymous',
+    organizationName: chat?.organizationName,
+    source: chat?.source,
+    mode: chat?.mode,
+    status: chat?.status,
+    lastActivityAt: chat?.lastActivityAt ?? hit.message?.timestamp,
+    snippet: hit.message ? searchSnippet(hit.message.text, terms) : undefined,
+    message: hit.message,
+  };
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Bot messages are plain text with *bold* words; Telegram gets them as HTML
+function botTextToHtml(text: string) {
+  return escapeHtml(text).replace(/\*([^*\n]+)\*/g, '<b>$1</b>');
+}
+
+// Inline keyboard for quick replies, one button per row. Clicks come back to
+// /webhook as callback queries.
+function quickReplyKeyboard(buttons: QuickReply[]) {
+  return {
+    inline_keyboard: buttons.map(({ id, label }) => [
+      { text: label, callback_data: `quick_${id}` },
+    ]),
+  };
+}
+
 // Helper to notify all registered agents about new/updated chats
 async function notifyAgents(
   chatId: string,
   message: string,
   isNewChat: boolean = false
 ) {
-  const chat = activeChats.get(chatId);
+  const chat = chatStore.get(chatId);
   if (!chat) {
     console.log(`⚠️ Cannot notify agents - chat ${chatId} not found`);
     return;
   }
 
-  if (registeredAgents.size === 0) {
+  // Off shift the chat waits for the summary sent at opening
+  if (!isOpen(BUSINESS_HOURS)) {
+    chat.queuedAt ??= Date.now();
+    chatStore.save(chatId);
+    console.log(`🌙 Chat ${chatId} queued until opening`);
+    return;
+  }
+
+  if (agentRoster.active().length === 0) {
     console.log(
       `⚠️ No agents registered yet. Use /start in support bot to register.`
     );
     return;
   }
 
-  let orgName = 'Unknown';
-  let subStatus = 'Unknown';
-  
-  // Fetch organization info if userId is available
-  if (chat.userId) {
+  const account = await fetchCustomerAccount(chatId, chat);
+  const orgName = account.organizationName || 'Unknown';
+  const subStatus = account.subscriptionStatus || 'Unknown';
+
+  const userName = chat.userFirstName
+    ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
+    : 'Anonymous';
+  const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
+
+  const notificationTitle = isNewChat
+    ? '🔔 <b>NEW CHAT CREATED!</b>'
+    : '💬 <b>New Message</b>';
+  const notificationText = `${notificationTitle}\n\n👤 User: ${userName}\n🏢 Organization: ${orgName}\n📊 Subscription: ${subStatus}\n${sourceIcon} Source: ${chat.source}\n\nMessage: "${message}"\n\nClick button to open chat`;
+
+  console.log(
+    `📢 Sending ${isNewChat ? 'NEW CHAT' : 'MESSAGE'} notification to ${agentRoster.active().length} agents...`
+  );
+
+  // Send to all registered agents with inline button
+  let successCount = 0;
+  for (const { telegramId: agentId } of agentRoster.active()) {
     try {
-      // First, get the user's profile to find organization_id
-      const { data: profile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('organization_id')
-        .eq('id', chat.userId)
-        .single();
-      
-      if (!profileError && profile?.organization_id) {
-        // Get organization details
-        const { data: org, error: orgError } = await supabase
-          .from('organization')
-          .select('business_name')
-          .eq('id', profile.organization_id)
-          .single();
-        
-        if (!orgError && org) {
-          orgName = org.business_name || 'Unknown';
-          
-          // Get subscription status
-          const { data: subscription, error: subError } = await supabase
-            .from('subscriptions')
-            .select('status')
-            .eq('organization_id', profile.organization_id)
-            .single();
-          
-          if (!subError && subscription) {
-            subStatus = subscription.status || 'Unknown';
-          } else if (subError) {
-            console.error('Error fetching subscription:', subError);
-          }
-        } else if (orgError) {
-          console.error('Error fetching organization:', orgError);
-        }
-      } else if (profileError) {
-        console.error('Error fetching user profile:', profileError);
+      await axios.post(`${supportBotUrl}/sendMessage`, {
+        chat_id: agentId,
+        text: notificationText,
+        parse_mode: 'HTML',
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: '📖 Open Chat', callback_data: `open_${chatId}` }],
+          ],
+        },
+      });
+      successCount++;
+      console.log(`✅ Notification sent to agent ${agentId}`);
+    } catch (error) {
+      console.error(`❌ Failed to notify agent ${agentId}:`, error);
+    }
+  }
+
+  console.log(
+    `📢 Successfully notified ${successCount}/${agentRoster.active().length} agents about ${isNewChat ? 'new chat' : 'message'} ${chatId}`
+  );
+}
+
+// Moves a chat to a new lifecycle status and tells the dashboard.
+// The caller saves the chat.
+function setChatStatus(chatId: string, status: ChatStatus) {
+  const chat = chatStore.get(chatId);
+  if (!chat || chat.status === status) return;
+  chat.status = status;
+  chat.statusChangedAt = Date.now();
+  emitToDashboard('chat_status_changed', { chatId, status });
+  console.log(`📌 Chat ${chatId} is now ${status}`);
+}
+
+// Clears the chat's unread count for every dashboard. The caller saves the
+// chat.
+function markChatRead(chatId: string) {
+  const chat = chatStore.get(chatId);
+  if (!chat) return;
+  chat.lastReadAt = Date.now();
+  emitToDashboard('chat_read', { chatId, lastReadAt: chat.lastReadAt });
+}
+
+// Finishes a chat: hands it back to the bot and drops it from agents' open
+// chats. 'resolved' is an agent closing it, 'closed' is the inactivity
+// sweeper and archives the chat.
+async function closeChat(
+  chatId: string,
+  status: 'resolved' | 'closed',
+  closedBy?: string
+): Promise<boolean> {
+  const chat = await chatStore.fetch(chatId);
+  if (!chat) return false;
+
+  const systemMessage: Message = {
+    from: 'system',
+    text:
+      status === 'resolved'
+        ? `${closedBy || 'Agent'} closed the chat`
+        : 'Chat closed after inactivity',
+    timestamp: Date.now(),
+  };
+  storeMessage(chatId, systemMessage);
+
+  chat.mode = 'bot';
+  delete chat.agentId;
+  delete chat.agentName;
+  delete chat.flow;
+  delete chat.escalation;
+  delete chat.queuedAt;
+  chat.requestingHuman = false;
+  setChatStatus(chatId, status);
+  chatStore.save(chatId);
+  customerAccounts.delete(chatId);
+
+  let routingChanged = false;
+  for (const [agentId, openChatId] of agentChatMap) {
+    if (openChatId === chatId) {
+      agentChatMap.delete(agentId);
+      routingChanged = true;
+    }
+  }
+  if (routingChanged) persistRouting();
+
+  emitToDashboard('chat_mode_changed', { chatId, mode: 'bot' });
+
+  if (status === 'resolved') {
+    await sendBotMessage(
+      chatId,
+      botText('chatClosed', chat.language),
+      chat.source
+    );
+  }
+
+  console.log(`🗂️ Chat ${chatId} ${status}${closedBy ? ` by ${closedBy}` : ''}`);
+  return true;
+}
+
+// Helper to store message in chat history
+function storeMessage(chatId: string, message: Message, userId?: string) {
+  if (chatStore.has(chatId)) {
+    chatStore.appendMessage(chatId, message);
+    console.log(`💾 Stored message for chat ${chatId}`);
+  }
+}
+
+// Picks the language the bot answers in. The language Telegram or the widget
+// reports is used until one of the first customer messages shows another.
+// Call after storing the customer's message; the caller saves the chat.
+function updateChatLanguage(chat: ChatState, text: string, reported?: unknown) {
+  const reportedLocale = toLocale(reported);
+  if (reportedLocale && !chat.language) {
+    chat.language = reportedLocale;
+    chat.languageSource = 'client';
+  }
+
+  const customerMessages = chat.messages.filter((m) => m.from === 'user');
+  if (customerMessages.length > LANGUAGE_DETECTION_MESSAGES) return;
+  const detected = detectLanguage(text);
+  if (detected && detected !== chat.language) {
+    chat.language = detected;
+    chat.languageSource = 'detected';
+  }
+}
+
+// Remembers where a message was copied to on Telegram, for edits and deletes
+function addTelegramCopy(
+  chatId: string,
+  message: Message,
+  bot: TelegramMessageRef['bot'],
+  telegramChatId: number,
+  messageId: number | undefined
+) {
+  if (messageId === undefined || !message.id) return;
+  message.telegram = [
+    ...(message.telegram || []),
+    { bot, chatId: telegramChatId, messageId },
+  ];
+  chatStore.updateMessage(chatId, message);
+}
+
+function isTelegramCopy(
+  message: Message,
+  bot: TelegramMessageRef['bot'],
+  telegramChatId: number,
+  messageId: number
+) {
+  return !!message.telegram?.some(
+    (ref) =>
+      ref.bot === bot &&
+      ref.chatId === telegramChatId &&
+      ref.messageId === messageId
+  );
+}
+
+// Customer messages as agents see them in the support bot
+function agentCopyText(chatId: string, senderName: string, text: string) {
+  return `💬 Message from <b>${senderName}</b> (Chat: <code>${chatId}</code>):\n\n${text}`;
+}
+
+// Button under customer messages in the support bot, when suggestions are on
+function suggestReplyKeyboard(chatId: string) {
+  if (!AI_SUGGESTIONS_ENABLED) return undefined;
+  return {
+    inline_keyboard: [
+      [{ text: '💡 Suggest reply', callback_data: `suggest_${chatId}` }],
+    ],
+  };
+}
+
+// Edits the Telegram copies of a message, except those on the bot the edit
+// came from (Telegram already shows it there)
+async function editTelegramCopies(
+  chatId: string,
+  message: Message,
+  origin?: TelegramMessageRef['bot']
+) {
+  const chat = chatStore.get(chatId);
+  const senderName =
+    `${chat?.userFirstName || ''} ${chat?.userLastName || ''}`.trim() || 'User';
+
+  for (const ref of message.telegram || []) {
+    if (ref.bot === origin) continue;
+    const agentCopy = ref.bot === 'support' && message.from === 'user';
+    const text = agentCopy
+      ? agentCopyText(chatId, senderName, message.text)
+      : message.text;
+    const botUrl = ref.bot === 'customer' ? customerBotUrl : supportBotUrl;
+    // File messages carry their text as the caption
+    const method = message.fileUrl ? 'editMessageCaption' : 'editMessageText';
+    try {
+      await axios.post(`${botUrl}/${method}`, {
+        chat_id: ref.chatId,
+        message_id: ref.messageId,
+        [message.fileUrl ? 'caption' : 'text']: text,
+        parse_mode: 'HTML',
+        // An edit without the keyboard would remove it
+        reply_markup: agentCopy ? suggestReplyKeyboard(chatId) : undefined,
+      });
+    } catch (error) {
+      console.error(
+        `❌ Failed to edit Telegram message ${ref.messageId} in ${ref.chatId}:`,
+        error
+      );
+    }
+  }
+}
+
+// Changes a stored message's text and passes the edit on to the dashboard
+// and the other Telegram bot
+async function editMessage(
+  chatId: string,
+  message: Message,
+  text: string,
+  origin?: TelegramMessageRef['bot']
+) {
+  message.text = text || (message.fileUrl ? `📎 ${message.fileName}` : '');
+  message.editedAt = Date.now();
+  chatStore.updateMessage(chatId, message);
+
+  emitToDashboard('message_edited', {
+    chatId,
+    messageId: message.id,
+    text: message.text,
+    editedAt: message.editedAt,
+  });
+  await editTelegramCopies(chatId, message, origin);
+  console.log(`✏️ Message ${message.id} in chat ${chatId} edited`);
+}
+
+// Deletes a message everywhere. The stored message keeps its ID and
+// timestamp so the history still shows where it was.
+async function deleteMessage(chatId: string, message: Message) {
+  for (const ref of message.telegram || []) {
+    const botUrl = ref.bot === 'customer' ? customerBotUrl : supportBotUrl;
+    try {
+      await axios.post(`${botUrl}/deleteMessage`, {
+        chat_id: ref.chatId,
+        message_id: ref.messageId,
+      });
+    } catch (error) {
+      // Telegram refuses to delete messages older than 48 hours
+      console.error(
+        `❌ Failed to delete Telegram message ${ref.messageId} in ${ref.chatId}:`,
+        error
+      );
+    }
+  }
+
+  message.text = '';
+  delete message.fileUrl;
+  delete message.fileName;
+  delete message.fileType;
+  message.deletedAt = Date.now();
+  chatStore.updateMessage(chatId, message);
+
+  emitToDashboard('message_deleted', { chatId, messageId: message.id });
+  console.log(`🗑️ Message ${message.id} in chat ${chatId} deleted`);
+}
+
+// Helper to send bot message
+async function sendBotMessage(
+  chatId: string,
+  text: string,
+  source: 'web' | 'telegram' = 'web',
+  extra: Pick<
+    Message,
+    'buttons' | 'knowledge' | 'aiGenerated' | 'aiSources'
+  > = {}
+) {
+  const chat = chatStore.get(chatId);
+  const { buttons } = extra;
+
+  // Send via customer Telegram bot if it's a Telegram chat
+  let telegramMessageId: number | undefined;
+  if (source === 'telegram' && chat?.telegramUserId) {
+    telegramMessageId = await tgSend(
+      customerBotUrl,
+      chat.telegramUserId,
+      botTextToHtml(text),
+      buttons?.length ? quickReplyKeyboard(buttons) : undefined
+    );
+  }
+
+  // Store and emit bot message
+  const message: Message = {
+    from: 'bot',
+    text,
+    timestamp: Date.now(),
+    ...(buttons?.length && { buttons }),
+    ...(extra.knowledge && { knowledge: extra.knowledge }),
+    ...(extra.aiGenerated && { aiGenerated: true }),
+    ...(extra.aiSources?.length && { aiSources: extra.aiSources }),
+  };
+
+  storeMessage(chatId, message, chat?.userId);
+  if (chat?.telegramUserId) {
+    addTelegramCopy(
+      chatId,
+      message,
+      'customer',
+      chat.telegramUserId,
+      telegramMessageId
+    );
+  }
+  emitToDashboard('bot_message', {
+    chatId,
+    text,
+    messageId: message.id,
+    buttons: message.buttons,
+    knowledge: message.knowledge,
+    aiGenerated: message.aiGenerated,
+    aiSources: message.aiSources,
+  });
+
+  console.log(`🤖 Bot sent message to ${chatId}: ${text}`);
+}
+
+// A customer clicked a quick reply under a bot message. The click is stored
+// as the customer's message and answered like one.
+async function handleQuickReply(
+  chatId: string,
+  quickReplyId: string,
+  source: 'web' | 'telegram'
+) {
+  const chat = await chatStore.fetch(chatId);
+  const answer = quickReplyAnswer(quickReplyId, chat?.language);
+  if (!chat || !answer) return;
+
+  if (shouldReopen(chat)) {
+    setChatStatus(chatId, 'reopened');
+    chatStore.save(chatId);
+  }
+
+  const userMessage: Message = {
+    from: 'user',
+    text: answer.label,
+    timestamp: Date.now(),
+    quickReply: quickReplyId,
+  };
+  storeMessage(chatId, userMessage, chat.userId);
+  const from =
+    `${chat.userFirstName || ''} ${chat.userLastName || ''}`.trim() || 'User';
+  emitToDashboard('message_from_user', {
+    chatId,
+    messageId: userMessage.id,
+    text: answer.label,
+    from,
+    quickReply: quickReplyId,
+  });
+  console.log(`👆 Quick reply ${quickReplyId} in ${chatId}`);
+
+  // An old button clicked after an agent took over goes to the agent
+  if (chat.mode === 'human' && chat.agentId) {
+    const agentTelegramId = agentRoster.resolveTelegramId(chat.agentId);
+    if (agentTelegramId !== undefined) {
+      const forwardedId = await tgSend(
+        supportBotUrl,
+        agentTelegramId,
+        agentCopyText(chatId, from, answer.label),
+        suggestReplyKeyboard(chatId)
+      );
+      addTelegramCopy(
+        chatId,
+        userMessage,
+        'support',
+        agentTelegramId,
+        forwardedId
+      );
+    }
+    return;
+  }
+
+  await handleBotReply(chatId, answer.text, source);
+}
+
+// Records what the bot did with a customer message, or that the chat went to
+// agents, for /api/analytics/bot
+function recordBotDecision(
+  chatId: string,
+  chat: ChatState,
+  outcome: BotDecisionOutcome,
+  details: Pick<BotDecision, 'ruleId' | 'flowId' | 'articleId' | 'reason'> = {}
+) {
+  chatStore.recordBotDecision({
+    chatId,
+    source: chat.source,
+    outcome,
+    ...details,
+    locale: chat.language,
+    at: Date.now(),
+  });
+}
+
+// The bot's answer from a knowledge base article
+function knowledgeAnswerText(article: KnowledgeMatch, locale?: Locale) {
+  const link = article.url ? `\n\n${botText('readMore', locale)} ${article.url}` : '';
+  return `📚 *${article.title}*\n\n${article.excerpt}${link}`;
+}
+
+// A generated answer with the sources it cites
+function aiAnswerText(text: string, sources: AISource[], locale?: Locale) {
+  const cited = sources
+    .map((source) => (source.url ? `${source.title} (${source.url})` : source.title))
+    .join('; ');
+  return `${text}\n\n📎 ${botText('aiSources', locale)} ${cited}`;
+}
+
+// What the AI tier may answer this question from, with rule templates
+// filled for the chat. The customer's plan is added only to other sources,
+// so it never makes a question look answerable on its own.
+async function findChatAISources(chatId: string, chat: ChatState, text: string) {
+  const sources = findAISources(
+    text,
+    chat.language,
+    autoReplyRules.list(),
+    knowledgeBase,
+    { minConfidence: AI_SOURCE_MIN_CONFIDENCE, limit: AI_SOURCE_LIMIT }
+  );
+  if (sources.length === 0) return sources;
+  for (const source of sources) {
+    if (source.kind === 'rule') {
+      source.text = await fillReplyTemplate(chatId, chat, source.text);
+    }
+  }
+  const account = accountSource(await cachedCustomerAccount(chatId, chat));
+  return account ? [...sources, account] : sources;
+}
+
+// Drafts the agent's next reply from the chat history, grounded like AI
+// answers, and offers it in the support bot and on the dashboard. The agent
+// sends it unchanged with the button, or copies and edits it.
+async function suggestAgentReply(
+  chatId: string,
+  chat: ChatState,
+  agentTelegramId: number
+) {
+  if (!llm) return;
+  const question = [...chat.messages]
+    .reverse()
+    .find((message) => message.from === 'user');
+  const sources = question?.text
+    ? await findChatAISources(chatId, chat, question.text)
+    : [];
+  const text = await getSuggestedReply(
+    llm,
+    chat.messages.slice(-AI_CONTEXT_MESSAGES),
+    chat.language,
+    sources
+  );
+  if (!text) {
+    await tgSend(
+      supportBotUrl,
+      agentTelegramId,
+      '❌ Could not draft a reply right now. Please write one yourself.'
+    );
+    return;
+  }
+
+  const now = Date.now();
+  for (const [id, suggestion] of replySuggestions) {
+    if (now - suggestion.createdAt > SUGGESTION_TTL_MINUTES * 60 * 1000) {
+      replySuggestions.delete(id);
+    }
+  }
+  const suggestionId = randomUUID();
+  replySuggestions.set(suggestionId, {
+    chatId,
+    text,
+    agentTelegramId,
+    createdAt: now,
+  });
+
+  await tgSend(
+    supportBotUrl,
+    agentTelegramId,
+    `💡 Suggested reply (Chat: <code>${chatId}</code>):\n\n<code>${escapeHtml(text)}</code>\n\n✏️ Tap the draft to copy it, edit it and send it yourself, or send it as is:`,
+    {
+      inline_keyboard: [
+        [{ text: '✅ Send as is', callback_data: `usesuggestion_${suggestionId}` }],
+      ],
+    }
+  );
+  emitToDashboard('agent_suggestion', {
+    chatId,
+    suggestionId,
+    text,
+    agentId: String(agentTelegramId),
+    sources: sources.map(aiSourceRef),
+  });
+  console.log(`💡 Suggested a reply in ${chatId} to agent ${agentTelegramId}`);
+}
+
+// Sends a suggested reply unchanged, as the agent's own message
+async function sendSuggestedReply(
+  chatId: string,
+  chat: ChatState,
+  text: string,
+  agentTelegramId: number,
+  agentName: string
+) {
+  let telegramMessageId: number | undefined;
+  if (chat.source === 'telegram' && chat.telegramUserId) {
+    telegramMessageId = await tgSend(
+      customerBotUrl,
+      chat.telegramUserId,
+      escapeHtml(text)
+    );
+  }
+
+  const agentMessage: Message = {
+    from: 'agent',
+    text,
+    timestamp: Date.now(),
+    agentId: String(agentTelegramId),
+    agentName,
+  };
+  storeMessage(chatId, agentMessage, chat.userId);
+  if (chat.telegramUserId) {
+    addTelegramCopy(
+      chatId,
+      agentMessage,
+      'customer',
+      chat.telegramUserId,
+      telegramMessageId
+    );
+  }
+
+  emitToDashboard('message_from_agent', {
+    chatId,
+    messageId: agentMessage.id,
+    message: text,
+    agentId: String(agentTelegramId),
+    agentName,
+  });
+  console.log(`👨‍💼 Agent ${agentName} sent a suggested reply to ${chatId}`);
+}
+
+// The chat's latest messages, one support bot message each
+async function sendChatHistory(
+  chatId: string,
+  agentTelegramId: number,
+  before?: number
+) {
+  const page = await chatStore.loadHistoryPage(chatId, before, HISTORY_MESSAGES);
+  await tgSend(
+    supportBotUrl,
+    agentTelegramId,
+    before === undefined
+      ? `📜 Chat history (last ${page.messages.length} messages):`
+      : `📜 Chat history (${page.messages.length} earlier messages):`
+  );
+
+  for (const msg of page.messages) {
+    const author =
+      msg.from === 'user'
+        ? '🧑 User'
+        : msg.from === 'agent'
+          ? `👨‍💼 ${msg.agentName || 'Agent'}`
+          : msg.from === 'bot'
+            ? msg.aiGenerated
+              ? '✨ Bot (AI-generated)'
+              : '🤖 Bot'
+            : '⚙️ System';
+
+    let msgText = `${author}:\n${msg.text}`;
+    if (msg.fileUrl) {
+      msgText += `\n📎 File: ${msg.fileName || 'attachment'}`;
+    }
+
+    await tgSend(supportBotUrl, agentTelegramId, msgText);
+  }
+
+  // Older pages on request, so a long chat is not replayed all at once
+  if (page.before !== null) {
+    await tgSend(supportBotUrl, agentTelegramId, '⬆️ There is more history.', {
+      inline_keyboard: [
+        [
+          {
+            text: '📜 Earlier messages',
+            callback_data: `historybefore_${page.before}_${chatId}`,
+          },
+        ],
+      ],
+    });
+  }
+}
+
+// What an agent sees on opening a chat: who the customer is, then a summary
+// of a long chat with a button for the full history, or the history itself
+async function sendOpenedChat(
+  chatId: string,
+  chat: ChatState,
+  agentTelegramId: number
+) {
+  const userName = chat.userFirstName
+    ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
+    : 'Anonymous';
+  const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
+
+  await tgSend(
+    supportBotUrl,
+    agentTelegramId,
+    `✅ Chat opened: <code>${chatId}</code>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}`
+  );
+
+  // Memory may hold only the latest messages; the store has them all
+  const messageCount = chat.messageCount ?? chat.messages.length;
+  if (messageCount === 0) {
+    await tgSend(
+      supportBotUrl,
+      agentTelegramId,
+      '📭 Chat is empty. No messages yet.'
+    );
+    return;
+  }
+
+  let summarized: Message[] = [];
+  let summary: string | null = null;
+  if (llm && AI_SUMMARIES_ENABLED && messageCount >= SUMMARY_MIN_MESSAGES) {
+    summarized = (
+      await chatStore.loadHistoryPage(chatId, undefined, SUMMARY_MAX_MESSAGES)
+    ).messages;
+    summary = await getChatSummary(llm, summarized);
+  }
+  if (summary) {
+    const covers =
+      summarized.length < messageCount
+        ? `last ${summarized.length} of ${messageCount} messages`
+        : `${messageCount} messages`;
+    await tgSend(
+      supportBotUrl,
+      agentTelegramId,
+      `🧾 Summary (AI-generated, ${covers}):\n\n${escapeHtml(summary)}`,
+      {
+        inline_keyboard: [
+          [{ text: '📜 Show full history', callback_data: `history_${chatId}` }],
+        ],
       }
+    );
+  } else {
+    await sendChatHistory(chatId, agentTelegramId);
+  }
+
+  await tgSend(
+    supportBotUrl,
+    agentTelegramId,
+    '✏️ Type your message to reply to the user.'
+  );
+}
+
+// Tells the customer the team is off shift, and when it is back
+function outOfHoursText(locale?: Locale) {
+  const opening = nextOpening(BUSINESS_HOURS);
+  return opening === undefined
+    ? botText('outOfHours', locale)
+    : `${botText('outOfHours', locale)}\n⏰ ${formatOpening(opening, BUSINESS_HOURS, locale)}`;
+}
+
+// Sends agents one message listing the chats queued while the team was off
+// shift, and takes them off the queue. Chats an agent already took or
+// closed are left out.
+async function sendQueuedChatsSummary() {
+  const queued = chatStore.entries().filter(([, chat]) => chat.queuedAt);
+  if (queued.length === 0 || agentRoster.active().length === 0) return;
+
+  for (const [chatId, chat] of queued) {
+    delete chat.queuedAt;
+    chatStore.save(chatId);
+  }
+  const waiting = queued
+    .filter(
+      ([, chat]) =>
+        chat.mode === 'bot' &&
+        chat.status !== 'resolved' &&
+        chat.status !== 'closed'
+    )
+    .sort(([, a], [, b]) => a.lastActivityAt - b.lastActivityAt);
+  if (waiting.length === 0) return;
+
+  const shown = waiting.slice(0, QUEUE_SUMMARY_MAX_CHATS);
+  const lines = shown.map(([chatId, chat], index) => {
+    const userName = chat.userFirstName
+      ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
+      : 'Anonymous';
+    const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
+    const status = chat.requestingHuman
+      ? `🙋 ${handoffReasonText(chat.handoffReason || 'customer_request')}`
+      : '💬 New chat';
+    return `${index + 1}. ${sourceIcon} ${escapeHtml(userName)} - ${status}\n   ID: <code>${chatId}</code>`;
+  });
+  const more =
+    waiting.length > shown.length
+      ? `\n\n…and ${waiting.length - shown.length} more, see /list`
+      : '';
+  const text = `🌅 <b>${waiting.length} chat${waiting.length === 1 ? '' : 's'} waiting since the team was off shift</b>\n\n${lines.join('\n')}${more}`;
+
+  for (const { telegramId: agentId } of agentRoster.active()) {
+    try {
+      await axios.post(`${supportBotUrl}/sendMessage`, {
+        chat_id: agentId,
+        text,
+        parse_mode: 'HTML',
+        reply_markup: {
+          inline_keyboard: shown.map(([chatId], index) => [
+            { text: `📖 Open ${index + 1}`, callback_data: `open_${chatId}` },
+          ]),
+        },
+      });
     } catch (error) {
-      console.error('Error fetching org info:', error);
+      console.error(`Failed to send queued chats summary to agent ${agentId}:`, error);
     }
   }
+  console.log(
+    `🌅 Sent summary of ${waiting.length} queued chats to ${agentRoster.active().length} agents`
+  );
+}
+
+// Hands a bot chat to the agents: marks it pending, tells the customer and
+// notifies every active agent. The reason, and details like a flow's
+// answers, are added to the notification.
+async function requestHumanAgent(
+  chatId: string,
+  chat: ChatState,
+  source: 'web' | 'telegram',
+  reason: HandoffReason,
+  details?: string
+) {
+  recordBotDecision(chatId, chat, 'handoff', { reason });
+  chat.requestingHuman = true;
+  chat.handoffReason = reason;
+  delete chat.escalation;
+  setChatStatus(chatId, 'pending');
+
+  // Off shift: tell the customer when the team is back and queue the chat
+  // for the summary agents get then
+  if (!isOpen(BUSINESS_HOURS)) {
+    chat.queuedAt ??= Date.now();
+    chatStore.save(chatId);
+    emitToDashboard('human_support_requested', {
+      chatId,
+      reason,
+      details,
+      queued: true,
+    });
+    await sendBotMessage(chatId, outOfHoursText(chat.language), source);
+    console.log(`🌙 Human support requested for chat ${chatId} (${reason}) - queued until opening`);
+    return;
+  }
+
+  chatStore.save(chatId);
+  emitToDashboard('human_support_requested', { chatId, reason, details });
+  await sendBotMessage(
+    chatId,
+    botText('humanRequested', chat.language),
+    source
+  );
 
+  // Immediately notify all agents
   const userName = chat.userFirstName
     ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
     : 'Anonymous';
   const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
 
-  const notificationTitle = isNewChat
-    ? '🔔 <b>NEW CHAT CREATED!</b>'
-    : '💬 <b>New Message</b>';
-  const notificationText = `${notificationTitle}\n\n👤 User: ${userName}\n🏢 Organization: ${orgName}\n📊 Subscription: ${subStatus}\n${sourceIcon} Source: ${chat.source}\n\nMessage: "${message}"\n\nClick button to open chat`;
-
-  console.log(
-    `📢 Sending ${isNewChat ? 'NEW CHAT' : 'MESSAGE'} notification to ${registeredAgents.size} agents...`
-  );
+  // Fetch organization and subscription info
+  const account = await fetchCustomerAccount(chatId, chat);
+  const orgName = account.organizationName || 'Unknown';
+  const subStatus = account.subscriptionStatus || 'Unknown';
 
-  // Send to all registered agents with inline button
-  let successCount = 0;
-  for (const agentId of registeredAgents) {
+  for (const { telegramId: agentId } of agentRoster.active()) {
     try {
       await axios.post(`${supportBotUrl}/sendMessage`, {
         chat_id: agentId,
-        text: notificationText,
+        text: `🙋 <b>SUPPORT REQUESTED!</b>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}\nOrganization Name: <code>${orgName}</code>\n\nSubscription Status: <code>${subStatus}</code>\n\n❓ Reason: ${handoffReasonText(reason)}${details ? `\n\n📝 ${escapeHtml(details)}` : ''}`,
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [
@@ -250,175 +1325,185 @@ async function notifyAgents(
           ],
         },
       });
-      successCount++;
-      console.log(`✅ Notification sent to agent ${agentId}`);
     } catch (error) {
-      console.error(`❌ Failed to notify agent ${agentId}:`, error);
+      console.error(`Failed to notify agent ${agentId}:`, error);
     }
   }
 
   console.log(
-    `📢 Successfully notified ${successCount}/${registeredAgents.size} agents about ${isNewChat ? 'new chat' : 'message'} ${chatId}`
+    `🙋 Human support requested for chat ${chatId} (${reason}) - notified ${agentRoster.active().length} agents`
   );
 }
 
-// Helper to store message in chat history (in-memory only)
-function storeMessage(chatId: string, message: Message, userId?: string) {
-  const chat = activeChats.get(chatId);
-  if (chat) {
-    chat.messages.push(message);
-    chat.lastActivityAt = Date.now();
-    console.log(`💾 Stored message in memory for chat ${chatId}`);
-  }
-}
-
-// Helper to send bot message
-async function sendBotMessage(
-  chatId: string,
-  text: string,
-  source: 'web' | 'telegram' = 'web'
-) {
-  const chat = activeChats.get(chatId);
-
-  // Send via customer Telegram bot if it's a Telegram chat
-  if (source === 'telegram' && chat?.telegramUserId) {
-    await tgSend(customerBotUrl, chat.telegramUserId, text);
-  }
-
-  // Store and emit bot message
-  const message: Message = {
-    from: 'bot',
-    text,
-    timestamp: Date.now(),
-  };
-
-  storeMessage(chatId, message, chat?.userId);
-  emitToDashboard('bot_message', { chatId, text });
-
-  console.log(`🤖 Bot sent message to ${chatId}: ${text}`);
-}
-
 // Bot auto-reply logic
 async function handleBotReply(
   chatId: string,
   text: string,
   source: 'web' | 'telegram' = 'web'
 ) {
-  const chat = activeChats.get(chatId);
+  const chat = chatStore.get(chatId);
   if (!chat || chat.mode !== 'bot') return;
 
-  const normalized = text.toLowerCase();
-
   // Check if user requested human agent
-  if (
-    normalized === 'agent' ||
-    normalized.includes('talk to human') ||
-    normalized.includes('speak to human') ||
-    normalized.includes('human support')
-  ) {
-    chat.requestingHuman = true;
-    emitToDashboard('human_support_requested', { chatId });
-    await sendBotMessage(
-      chatId,
-      "🙋 I've notified our support team. An agent will join you shortly.",
-      source
-    );
-
-    // Immediately notify all agents
-    const userName = chat.userFirstName
-      ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
-      : 'Anonymous';
-    const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
+  if (isHumanRequest(text, HANDOFF)) {
+    delete chat.flow;
+    recordBotDecision(chatId, chat, 'human_request');
+    await requestHumanAgent(chatId, chat, source, 'customer_request');
+    return;
+  }
 
-    // Fetch organization and subscription info
-    let orgName = 'Unknown';
-    let subStatus = 'Unknown';
-    if (chat.userId) {
-      try {
-        // First, get the user's profile to find organization_id
-        const { data: profile, error: profileError } = await supabase
-          .from('user_profiles')
-          .select('organization_id')
-          .eq('id', chat.userId)
-          .single();
-        
-        if (!profileError && profile?.organization_id) {
-          // Get organization details
-          const { data: org, error: orgError } = await supabase
-            .from('organization')
-            .select('business_name')
-            .eq('id', profile.organization_id)
-            .single();
-          
-          if (!orgError && org) {
-            orgName = org.business_name || 'Unknown';
-            
-            // Get subscription status
-            const { data: subscription, error: subError } = await supabase
-              .from('subscriptions')
-              .select('status')
-              .eq('organization_id', profile.organization_id)
-              .single();
-            
-            if (!subError && subscription) {
-              subStatus = subscription.status || 'Unknown';
-            } else if (subError) {
-              console.error('Error fetching subscription:', subError);
-            }
-          } else if (orgError) {
-            console.error('Error fetching organization:', orgError);
-          }
-        } else if (profileError) {
-          console.error('Error fetching user profile:', profileError);
-        }
-      } catch (error) {
-        console.error('Error fetching org info:', error);
-      }
+  // Multi-step flows, see flows.ts
+  const hadFlow = !!chat.flow;
+  const flowReply = handleFlowMessage(chat, text);
+  if (flowReply || hadFlow) chatStore.save(chatId);
+  if (flowReply) {
+    recordBotDecision(chatId, chat, 'flow', { flowId: flowReply.flowId });
+    console.log(
+      `🧭 Flow ${flowReply.flowId} for ${chatId}${flowReply.ended ? ` ${flowReply.ended}` : ''}`
+    );
+    for (const message of flowReply.messages) {
+      await sendBotMessage(chatId, message, source);
     }
-
-    for (const agentId of registeredAgents) {
-      try {
-        await axios.post(`${supportBotUrl}/sendMessage`, {
-          chat_id: agentId,
-          text: `🙋 <b>SUPPORT REQUESTED!</b>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}\nOrganization Name: <code>${orgName}</code>\n\nSubscription Status: <code>${subStatus}</code>\n\nUser needs help!`,
-          parse_mode: 'HTML',
-          reply_markup: {
-            inline_keyboard: [
-              [{ text: '📖 Open Chat', callback_data: `open_${chatId}` }],
-            ],
-          },
-        });
-      } catch (error) {
-        console.error(`Failed to notify agent ${agentId}:`, error);
-      }
+    if (flowReply.ended === 'handoff') {
+      await requestHumanAgent(chatId, chat, source, 'flow', flowReply.handoff);
     }
+    return;
+  }
 
-    console.log(
-      `🙋 Human support requested for chat ${chatId} - notified ${registeredAgents.size} agents`
-    );
+  // The same question over and over goes to an agent, see handoff.ts
+  const repeated = noteQuestion(chat, text, HANDOFF);
+  chatStore.save(chatId);
+  if (repeated) {
+    await requestHumanAgent(chatId, chat, source, repeated);
     return;
   }
 
   // Try keyword-based auto reply
-  const matchedReply = getAutoReply(text);
-  if (matchedReply) {
-    await sendBotMessage(chatId, matchedReply, source);
+  const match = matchAutoReply(text, chat.language);
+  if (match) {
+    console.log(`💬 Auto-reply for ${chatId}: ${describeAutoReplyMatch(match)}`);
+    recordBotDecision(chatId, chat, 'rule', { ruleId: match.ruleId });
+    noteAnswer(chat, true, HANDOFF);
+    const reply = await fillReplyTemplate(chatId, chat, match.reply);
+    await sendBotMessage(chatId, reply, source);
+    return;
+  }
+
+  // FAQ article, if one answers the question well enough
+  const [article] = knowledgeBase.search(text, chat.language, 1);
+  if (article && article.confidence >= KNOWLEDGE_BASE_MIN_CONFIDENCE) {
+    console.log(
+      `📚 Knowledge base answer for ${chatId}: ${article.articleId} (score ${article.score}, confidence ${article.confidence})`
+    );
+    recordBotDecision(chatId, chat, 'knowledge', {
+      articleId: article.articleId,
+    });
+    noteAnswer(chat, true, HANDOFF);
+    await sendBotMessage(
+      chatId,
+      knowledgeAnswerText(article, chat.language),
+      source,
+      { knowledge: article }
+    );
     return;
   }
 
-  // Default fallback
+  // Generated answer from our own content, with the latest messages as
+  // context. Without a source for it the bot declines and offers an agent.
+  let declined = false;
+  if (llm && AI_REPLIES_ENABLED) {
+    const sources = await findChatAISources(chatId, chat, text);
+    const reply = await getAIReply(
+      llm,
+      chat.messages.slice(-AI_CONTEXT_MESSAGES),
+      chat.language,
+      sources
+    );
+    // An agent may have taken the chat while the model was answering
+    if (chat.mode !== 'bot') return;
+    if (reply && 'text' in reply) {
+      console.log(
+        `✨ AI reply for ${chatId} from ${llm.kind} ${llm.model}, citing ${reply.sources.map((s) => `${s.kind}:${s.id}`).join(', ')}`
+      );
+      recordBotDecision(chatId, chat, 'ai');
+      noteAnswer(chat, true, HANDOFF);
+      await sendBotMessage(
+        chatId,
+        aiAnswerText(reply.text, reply.sources, chat.language),
+        source,
+        { aiGenerated: true, aiSources: reply.sources.map(aiSourceRef) }
+      );
+      return;
+    }
+    declined = !!reply;
+    if (declined) console.log(`✨ AI declined for ${chatId}: no source answers it`);
+  }
+
+  // Default fallback, unless the bot has fallen back too often in a row
+  recordBotDecision(chatId, chat, 'fallback');
+  const stuck = noteAnswer(chat, false, HANDOFF);
+  if (stuck) {
+    await requestHumanAgent(chatId, chat, source, stuck);
+    return;
+  }
   await sendBotMessage(
     chatId,
-    "🤖 I'm not sure I understand. You can ask about prices, support, or type *agent* for human help.",
-    source
+    botText(declined ? 'aiDeclined' : 'fallback', chat.language),
+    source,
+    {
+      buttons: quickReplyButtons(
+        declined ? ['agent'] : MENU_QUICK_REPLIES,
+        chat.language
+      ),
+    }
   );
 }
 
+// Telegram sends an update again when the webhook is slow to answer, so
+// work that may wait on the LLM runs on its own instead of before the 200
+function runDetached(label: string, task: () => Promise<void>) {
+  task().catch((error) => console.error(`❌ ${label} failed:`, error));
+}
+
 // =====================================================
 // =============== CUSTOMER BOT WEBHOOK =================
 // =====================================================
 app.post('/webhook', async (req, res) => {
   try {
+    // Customer clicked a quick-reply button under a bot message
+    const callbackQuery = req.body.callback_query;
+    if (callbackQuery) {
+      await axios.post(`${customerBotUrl}/answerCallbackQuery`, {
+        callback_query_id: callbackQuery.id,
+      });
+      const data: string = callbackQuery.data || '';
+      const chatId = userChatMap.get(callbackQuery.from.id);
+      if (data.startsWith('quick_') && chatId) {
+        await handleQuickReply(chatId, data.replace('quick_', ''), 'telegram');
+      }
+      return res.sendStatus(200);
+    }
+
+    // Customer edited a message they sent earlier in their current chat
+    const edited = req.body.edited_message;
+    if (edited) {
+      const chatId = userChatMap.get(edited.from.id);
+      if (chatId && (await chatStore.fetch(chatId))) {
+        const stored = await chatStore.findMessage(chatId, (m) =>
+          isTelegramCopy(m, 'customer', edited.from.id, edited.message_id)
+        );
+        if (stored && !stored.deletedAt) {
+          await editMessage(
+            chatId,
+            stored,
+            edited.text || edited.caption || '',
+            'customer'
+          );
+        }
+      }
+      return res.sendStatus(200);
+    }
+
     const message = req.body.message;
     if (!message) return res.sendStatus(200);
 
@@ -473,13 +1558,15 @@ app.post('/webhook', async (req, res) => {
     // Generate a unique chat ID for each new user or get existing one
     let chatId = userChatMap.get(telegramUserId);
 
-    if (!chatId || !activeChats.has(chatId)) {
+    if (!chatId || !(await chatStore.fetch(chatId))) {
       // Create new chat for this user
       chatId = `tg_${telegramUserId}_${Date.now()}`;
       userChatMap.set(telegramUserId, chatId);
+      persistRouting();
 
-      activeChats.set(chatId, {
+      chatStore.create(chatId, {
         mode: 'bot',
+        status: 'open',
         messages: [],
         source: 'telegram',
         userFirstName: firstName,
@@ -504,12 +1591,19 @@ app.post('/webhook', async (req, res) => {
       await notifyAgents(chatId, text || '[Chat started]', true);
     } else {
       // Update user info if changed
-      const chat = activeChats.get(chatId)!;
+      const chat = chatStore.get(chatId)!;
       chat.userFirstName = firstName;
       chat.userLastName = lastName;
+      chatStore.save(chatId);
     }
 
-    const chatState = activeChats.get(chatId)!;
+    const chatState = chatStore.get(chatId)!;
+
+    // A customer writing into a finished chat reopens it
+    if (shouldReopen(chatState)) {
+      setChatStatus(chatId, 'reopened');
+      chatStore.save(chatId);
+    }
 
     // 2. Store user message with file data
     const userMessage: Message = {
@@ -521,10 +1615,20 @@ app.post('/webhook', async (req, res) => {
       fileType,
     };
     storeMessage(chatId, userMessage, String(telegramUserId));
+    updateChatLanguage(chatState, text, message.from?.language_code);
+    chatStore.save(chatId);
+    addTelegramCopy(
+      chatId,
+      userMessage,
+      'customer',
+      telegramUserId,
+      message.message_id
+    );
 
     // 3. Forward to dashboard
     emitToDashboard('message_from_user', {
       chatId,
+      messageId: userMessage.id,
       text: text || (fileUrl ? `📎 ${fileName}` : ''),
       from,
       fileUrl,
@@ -535,30 +1639,47 @@ app.post('/webhook', async (req, res) => {
 
     // 4. If in human mode, forward to support agent via support bot
     if (chatState.mode === 'human' && chatState.agentId) {
-      const agentTelegramId = parseInt(chatState.agentId);
-      if (!isNaN(agentTelegramId)) {
-        let messageText = `💬 Message from <b>${from}</b> (Chat: <code>${chatId}</code>):\n\n${text}`;
+      const agentTelegramId = agentRoster.resolveTelegramId(chatState.agentId);
+      if (agentTelegramId !== undefined) {
+        let messageText = agentCopyText(chatId, from, text);
+        let forwardedId: number | undefined;
 
         if (fileUrl) {
           // Send file to agent
           if (fileType.startsWith('image/')) {
-            await axios.post(`${supportBotUrl}/sendPhoto`, {
+            const { data } = await axios.post(`${supportBotUrl}/sendPhoto`, {
               chat_id: agentTelegramId,
               photo: fileUrl,
               caption: messageText,
               parse_mode: 'HTML',
+              reply_markup: suggestReplyKeyboard(chatId),
             });
+            forwardedId = data.result?.message_id;
           } else {
-            await axios.post(`${supportBotUrl}/sendDocument`, {
+            const { data } = await axios.post(`${supportBotUrl}/sendDocument`, {
               chat_id: agentTelegramId,
               document: fileUrl,
               caption: messageText,
               parse_mode: 'HTML',
+              reply_markup: suggestReplyKeyboard(chatId),
             });
+            forwardedId = data.result?.message_id;
           }
         } else {
-          await tgSend(supportBotUrl, agentTelegramId, messageText);
+          forwardedId = await tgSend(
+            supportBotUrl,
+            agentTelegramId,
+            messageText,
+            suggestReplyKeyboard(chatId)
+          );
         }
+        addTelegramCopy(
+          chatId,
+          userMessage,
+          'support',
+          agentTelegramId,
+          forwardedId
+        );
       }
       console.log(
         `👤 Telegram chat ${chatId} is in human mode - forwarded to agent`
@@ -567,7 +1688,9 @@ app.post('/webhook', async (req, res) => {
     }
 
     // 5. Bot auto-reply
-    await handleBotReply(chatId, text, 'telegram');
+    runDetached(`Bot reply for ${chatId}`, () =>
+      handleBotReply(chatId, text, 'telegram')
+    );
 
     res.sendStatus(200);
   } catch (e) {
@@ -587,6 +1710,7 @@ app.post('/telegram/support/webhook', async (req, res) => {
       const telegramId = callbackQuery.from.id;
       const agentName = `${callbackQuery.from.first_name ?? 'Agent'}`;
       const data = callbackQuery.data;
+      agentRoster.touch(telegramId);
 
       // Answer callback query to remove loading state
       await axios.post(`${supportBotUrl}/answerCallbackQuery`, {
@@ -599,14 +1723,22 @@ app.post('/telegram/support/webhook', async (req, res) => {
 
         // Execute the open logic
         agentChatMap.set(telegramId, chatId);
-        const chat = activeChats.get(chatId);
+        persistRouting();
+        const chat = await chatStore.fetch(chatId);
 
         if (chat) {
+          // Only a chat leaving the bot counts as handed off
+          if (chat.mode !== 'human') recordBotDecision(chatId, chat, 'handoff');
           chat.mode = 'human';
+          delete chat.flow;
+          delete chat.escalation;
           chat.agentId = String(telegramId);
           chat.agentName = agentName;
           chat.requestingHuman = false;
+          setChatStatus(chatId, statusAfterTakeover(chat));
           chat.visited = true; // Mark chat as visited
+          markChatRead(chatId);
+          chatStore.save(chatId);
 
           const systemMessage: Message = {
             from: 'system',
@@ -624,54 +1756,30 @@ app.post('/telegram/support/webhook', async (req, res) => {
         });
 
         if (chat) {
-          const userName = chat.userFirstName
-            ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
-            : 'Anonymous';
-          const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
-
+          runDetached(`Opening ${chatId}`, () =>
+            sendOpenedChat(chatId, chat, telegramId)
+          );
+        } else {
           await tgSend(
             supportBotUrl,
             telegramId,
-            `✅ Chat opened: <code>${chatId}</code>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}`
+            `❌ Chat <code>${chatId}</code> not found.`
           );
+        }
+      }
 
-          if (chat.messages.length === 0) {
-            await tgSend(
-              supportBotUrl,
-              telegramId,
-              '📭 Chat is empty. No messages yet.'
-            );
-          } else {
-            await tgSend(
-              supportBotUrl,
-              telegramId,
-              `📜 Chat history (last 30 messages):`
-            );
-
-            for (const msg of chat.messages.slice(-30)) {
-              const author =
-                msg.from === 'user'
-                  ? '🧑 User'
-                  : msg.from === 'agent'
-                    ? `👨‍💼 ${msg.agentName || 'Agent'}`
-                    : msg.from === 'bot'
-                      ? '🤖 Bot'
-                      : '⚙️ System';
-
-              let msgText = `${author}:\n${msg.text}`;
-              if (msg.fileUrl) {
-                msgText += `\n📎 File: ${msg.fileName || 'attachment'}`;
-              }
-
-              await tgSend(supportBotUrl, telegramId, msgText);
-            }
-
-            await tgSend(
-              supportBotUrl,
-              telegramId,
-              '✏️ Type your message to reply to the user.'
-            );
-          }
+      // "Show full history" under a chat summary, and "Earlier messages"
+      // under a page of it
+      const historyPage = data.match(/^historybefore_(\d+)_(.+)$/);
+      if (data.startsWith('history_') || historyPage) {
+        const chatId = historyPage ? historyPage[2] : data.replace('history_', '');
+        const chat = await chatStore.fetch(chatId);
+        if (chat) {
+          await sendChatHistory(
+            chatId,
+            telegramId,
+            historyPage ? Number(historyPage[1]) : undefined
+          );
         } else {
           await tgSend(
             supportBotUrl,
@@ -681,6 +1789,86 @@ app.post('/telegram/support/webhook', async (req, res) => {
         }
       }
 
+      // "Suggest reply" under a customer message; only for the open chat
+      if (data.startsWith('suggest_')) {
+        const chatId = data.replace('suggest_', '');
+        const chat = await chatStore.fetch(chatId);
+        if (!chat || agentChatMap.get(telegramId) !== chatId) {
+          await tgSend(
+            supportBotUrl,
+            telegramId,
+            `⚠️ Open chat <code>${chatId}</code> first to get a suggested reply.`
+          );
+        } else {
+          runDetached(`Suggestion for ${chatId}`, () =>
+            suggestAgentReply(chatId, chat, telegramId)
+          );
+        }
+      }
+
+      // "Send as is" under a suggested reply
+      if (data.startsWith('usesuggestion_')) {
+        const suggestionId = data.replace('usesuggestion_', '');
+        const suggestion = replySuggestions.get(suggestionId);
+        const chat =
+          suggestion && suggestion.agentTelegramId === telegramId
+            ? await chatStore.fetch(suggestion.chatId)
+            : undefined;
+        if (!suggestion || !chat) {
+          await tgSend(
+            supportBotUrl,
+            telegramId,
+            '⚠️ This suggestion has expired. Tap 💡 Suggest reply for a new one.'
+          );
+        } else if (agentChatMap.get(telegramId) !== suggestion.chatId) {
+          await tgSend(
+            supportBotUrl,
+            telegramId,
+            `⚠️ Open chat <code>${suggestion.chatId}</code> first to send this reply.`
+          );
+        } else {
+          replySuggestions.delete(suggestionId);
+          await sendSuggestedReply(
+            suggestion.chatId,
+            chat,
+            suggestion.text,
+            telegramId,
+            agentName
+          );
+          // The suggestion becomes the record of what was sent
+          await axios
+            .post(`${supportBotUrl}/editMessageText`, {
+              chat_id: telegramId,
+              message_id: callbackQuery.message?.message_id,
+              text: `✅ Sent to <code>${suggestion.chatId}</code>:\n\n${escapeHtml(suggestion.text)}`,
+              parse_mode: 'HTML',
+            })
+            .catch((error) =>
+              console.error('❌ Failed to mark suggestion as sent:', error)
+            );
+        }
+      }
+
+      return res.sendStatus(200);
+    }
+
+    // Agent edited a reply in the chat they have open
+    const edited = req.body.edited_message;
+    if (edited) {
+      const chatId = agentChatMap.get(edited.from.id);
+      if (chatId && (await chatStore.fetch(chatId))) {
+        const stored = await chatStore.findMessage(chatId, (m) =>
+          isTelegramCopy(m, 'support', edited.from.id, edited.message_id)
+        );
+        if (stored && stored.from === 'agent' && !stored.deletedAt) {
+          await editMessage(
+            chatId,
+            stored,
+            edited.text || edited.caption || '',
+            'support'
+          );
+        }
+      }
       return res.sendStatus(200);
     }
 
@@ -690,12 +1878,13 @@ app.post('/telegram/support/webhook', async (req, res) => {
     const telegramId = message.from.id;
     const text = message.text ?? '';
     const agentName = `${message.from.first_name ?? 'Agent'}`;
+    agentRoster.touch(telegramId);
 
     // 1. Register agent
     if (text === '/start') {
-      registeredAgents.add(telegramId);
+      agentRoster.register(telegramId, agentName);
       console.log(
-        `✅ Agent ${agentName} (${telegramId}) registered. Total agents: ${registeredAgents.size}`
+        `✅ Agent ${agentName} (${telegramId}) registered. Total agents: ${agentRoster.active().length}`
       );
 
       await tgSend(
@@ -705,8 +1894,10 @@ app.post('/telegram/support/webhook', async (req, res) => {
           "You'll receive notifications for new chats.\n\n" +
           'Commands:\n' +
           '/list - View active chats\n' +
+          '/search <terms> - Find chats by message, name, organization or ID\n' +
           '/open <chat_id> - Open a chat\n' +
           '/release - Release current chat\n' +
+          '/close [chat_id] - Close current or given chat\n' +
           'Type messages normally to reply to users.'
       );
       return res.sendStatus(200);
@@ -714,7 +1905,9 @@ app.post('/telegram/support/webhook', async (req, res) => {
 
     // 2. List active chats
     if (text === '/list') {
-      const chats = Array.from(activeChats.entries());
+      const chats = chatStore
+        .entries()
+        .filter(([, chat]) => isActiveChat(chat));
 
       if (chats.length === 0) {
         await tgSend(supportBotUrl, telegramId, 'No active chats.');
@@ -752,7 +1945,7 @@ app.post('/telegram/support/webhook', async (req, res) => {
           }
         );
 
-        const msgCount = chat.messages.length;
+        const msgCount = chat.messageCount ?? chat.messages.length;
         const agentInfo =
           chat.mode === 'human' && chat.agentName
             ? `\n   Agent: ${chat.agentName}`
@@ -761,6 +1954,7 @@ app.post('/telegram/support/webhook', async (req, res) => {
         let msg = `${requestFlag}\n${visitedFlag} ${modeIcon} <b>${userName}</b> ${sourceIcon}\n`;
         msg += `   Created: ${createdTime}\n`;
         msg += `   Last activity: ${lastActivityTime}\n`;
+        msg += `   Status: ${chat.status}\n`;
         msg += `   Messages: ${msgCount}${agentInfo}\n`;
         msg += `   ID: <code>${chatId}</code>`;
 
@@ -784,7 +1978,86 @@ app.post('/telegram/support/webhook', async (req, res) => {
       return res.sendStatus(200);
     }
 
-    // 3. Open chat (takeover)
+    // 3. Search chats
+    if (text === '/search' || text.startsWith('/search ')) {
+      const query = text.slice('/search'.length).trim();
+      const terms = searchTerms(query);
+      if (terms.length === 0) {
+        await tgSend(supportBotUrl, telegramId, 'Usage: /search <terms>');
+        return res.sendStatus(200);
+      }
+
+      let hits: ChatSearchHit[];
+      try {
+        hits = await chatStore.search(query, SUPPORT_BOT_SEARCH_LIMIT);
+      } catch (error) {
+        console.error('❌ Chat search failed:', error);
+        await tgSend(
+          supportBotUrl,
+          telegramId,
+          '❌ Search failed, try again later.'
+        );
+        return res.sendStatus(200);
+      }
+
+      if (hits.length === 0) {
+        await tgSend(
+          supportBotUrl,
+          telegramId,
+          `🔎 No chats found for "${escapeHtml(query)}".`
+        );
+        return res.sendStatus(200);
+      }
+
+      await tgSend(
+        supportBotUrl,
+        telegramId,
+        `🔎 ${hits.length} chat${hits.length === 1 ? '' : 's'} found for "${escapeHtml(query)}":`
+      );
+
+      for (const hit of hits) {
+        const result = describeSearchHit(hit, terms);
+        const sourceIcon = result.source === 'web' ? '🌐' : '📱';
+        const lastActivityTime = result.lastActivityAt
+          ? new Date(result.lastActivityAt).toLocaleString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })
+          : 'Unknown';
+
+        let msg = `<b>${escapeHtml(result.userName)}</b> ${sourceIcon}\n`;
+        if (result.organizationName) {
+          msg += `   Organization: ${escapeHtml(result.organizationName)}\n`;
+        }
+        msg += `   Last activity: ${lastActivityTime}\n`;
+        msg += `   Status: ${result.status || 'unknown'}\n`;
+        if (result.snippet) {
+          msg += `   💬 "${escapeHtml(result.snippet)}"\n`;
+        }
+        msg += `   ID: <code>${hit.chatId}</code>`;
+
+        try {
+          await axios.post(`${supportBotUrl}/sendMessage`, {
+            chat_id: telegramId,
+            text: msg,
+            parse_mode: 'HTML',
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: '📖 Open Chat', callback_data: `open_${hit.chatId}` }],
+              ],
+            },
+          });
+        } catch (error) {
+          console.error('Failed to send search result with button:', error);
+        }
+      }
+
+      return res.sendStatus(200);
+    }
+
+    // 4. Open chat (takeover)
     if (text.startsWith('/open')) {
       const parts = text.split(' ');
       const chatId = parts[1];
@@ -796,15 +2069,23 @@ app.post('/telegram/support/webhook', async (req, res) => {
 
       // Save active chat for agent
       agentChatMap.set(telegramId, chatId);
+      persistRouting();
 
-      const chat = activeChats.get(chatId);
+      const chat = await chatStore.fetch(chatId);
 
       if (chat) {
+        // Only a chat leaving the bot counts as handed off
+        if (chat.mode !== 'human') recordBotDecision(chatId, chat, 'handoff');
         chat.mode = 'human';
+        delete chat.flow;
+        delete chat.escalation;
         chat.agentId = String(telegramId);
         chat.agentName = agentName;
         chat.requestingHuman = false;
+        setChatStatus(chatId, statusAfterTakeover(chat));
         chat.visited = true; // Mark chat as visited
+        markChatRead(chatId);
+        chatStore.save(chatId);
 
         // Add system message (stored but not emitted to prevent showing to web user)
         const systemMessage: Message = {
@@ -819,56 +2100,14 @@ app.post('/telegram/support/webhook', async (req, res) => {
       emitToDashboard('chat_mode_changed', {
         chatId,
         mode: 'human',
-        agentId: String(telegramId),
-        agentName,
-      });
-
-      // ---------- NEW PART: SEND CHAT HISTORY ----------
-      if (chat) {
-        const userName = chat.userFirstName
-          ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
-          : 'Anonymous';
-        const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
-
-        await tgSend(
-          supportBotUrl,
-          telegramId,
-          `✅ Chat opened: <code>${chatId}</code>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}`
-        );
-
-        if (chat.messages.length === 0) {
-          await tgSend(
-            supportBotUrl,
-            telegramId,
-            '📭 Chat is empty. No messages yet.'
-          );
-        } else {
-          await tgSend(
-            supportBotUrl,
-            telegramId,
-            `📜 Chat history (last 30 messages):`
-          );
-
-          for (const msg of chat.messages.slice(-30)) {
-            // last 30 messages
-            const author =
-              msg.from === 'user'
-                ? '🧑 User'
-                : msg.from === 'agent'
-                  ? `👨‍💼 ${msg.agentName || 'Agent'}`
-                  : msg.from === 'bot'
-                    ? '🤖 Bot'
-                    : '⚙️ System';
-
-            await tgSend(supportBotUrl, telegramId, `${author}:\n${msg.text}`);
-          }
-
-          await tgSend(
-            supportBotUrl,
-            telegramId,
-            '✏️ Type your message to reply to the user.'
-          );
-        }
+        agentId: String(telegramId),
+        agentName,
+      });
+
+      if (chat) {
+        runDetached(`Opening ${chatId}`, () =>
+          sendOpenedChat(chatId, chat, telegramId)
+        );
       } else {
         await tgSend(
           supportBotUrl,
@@ -876,11 +2115,10 @@ app.post('/telegram/support/webhook', async (req, res) => {
           `❌ Chat <code>${chatId}</code> not found.`
         );
       }
-      // --------------------------------------------------
 
       return res.sendStatus(200);
     }
-    // 4. Release chat
+    // 5. Release chat
     if (text === '/release') {
       const currentChat = agentChatMap.get(telegramId);
       if (!currentChat) {
@@ -889,8 +2127,9 @@ app.post('/telegram/support/webhook', async (req, res) => {
       }
 
       agentChatMap.delete(telegramId);
+      persistRouting();
 
-      const chat = activeChats.get(currentChat);
+      const chat = await chatStore.fetch(currentChat);
       if (chat) {
         // Store system message about agent leaving
         const systemMessage: Message = {
@@ -904,6 +2143,7 @@ app.post('/telegram/support/webhook', async (req, res) => {
         delete chat.agentId;
         delete chat.agentName;
         chat.requestingHuman = false;
+        chatStore.save(currentChat);
       }
 
       emitToDashboard('chat_mode_changed', {
@@ -920,10 +2160,33 @@ app.post('/telegram/support/webhook', async (req, res) => {
       return res.sendStatus(200);
     }
 
-    // 5. Send message from agent to user
+    // 6. Close chat (current one, or the given chat ID)
+    if (text.startsWith('/close')) {
+      const chatId = text.split(' ')[1] || agentChatMap.get(telegramId);
+      if (!chatId) {
+        await tgSend(
+          supportBotUrl,
+          telegramId,
+          'Usage: /close <chat_id>, or open a chat first.'
+        );
+        return res.sendStatus(200);
+      }
+
+      const closed = await closeChat(chatId, 'resolved', agentName);
+      await tgSend(
+        supportBotUrl,
+        telegramId,
+        closed
+          ? `🗂️ Closed chat <code>${chatId}</code>`
+          : `❌ Chat <code>${chatId}</code> not found.`
+      );
+      return res.sendStatus(200);
+    }
+
+    // 7. Send message from agent to user
     const currentChat = agentChatMap.get(telegramId);
     if (currentChat) {
-      const chat = activeChats.get(currentChat);
+      const chat = await chatStore.fetch(currentChat);
 
       if (!chat) {
         await tgSend(
@@ -985,29 +2248,50 @@ app.post('/telegram/support/webhook', async (req, res) => {
         fileType,
       };
       storeMessage(currentChat, agentMessage);
+      addTelegramCopy(
+        currentChat,
+        agentMessage,
+        'support',
+        telegramId,
+        message.message_id
+      );
 
       // Send to customer based on source
       if (chat.source === 'telegram' && chat.telegramUserId) {
         // Telegram user - forward file or text
+        let customerCopyId: number | undefined;
         if (fileUrl) {
           if (fileType.startsWith('image/')) {
-            await axios.post(`${customerBotUrl}/sendPhoto`, {
+            const { data } = await axios.post(`${customerBotUrl}/sendPhoto`, {
               chat_id: chat.telegramUserId,
               photo: fileUrl,
               caption: messageText,
               parse_mode: 'HTML',
             });
+            customerCopyId = data.result?.message_id;
           } else {
-            await axios.post(`${customerBotUrl}/sendDocument`, {
+            const { data } = await axios.post(`${customerBotUrl}/sendDocument`, {
               chat_id: chat.telegramUserId,
               document: fileUrl,
               caption: messageText,
               parse_mode: 'HTML',
             });
+            customerCopyId = data.result?.message_id;
           }
         } else {
-          await tgSend(customerBotUrl, chat.telegramUserId, messageText);
+          customerCopyId = await tgSend(
+            customerBotUrl,
+            chat.telegramUserId,
+            messageText
+          );
         }
+        addTelegramCopy(
+          currentChat,
+          agentMessage,
+          'customer',
+          chat.telegramUserId,
+          customerCopyId
+        );
       } else if (chat.source === 'web') {
         // Web user - send via Socket.IO (handled by emitToDashboard below)
         console.log(
@@ -1018,6 +2302,7 @@ app.post('/telegram/support/webhook', async (req, res) => {
       // Notify dashboard (this sends to web users via Socket.IO)
       emitToDashboard('message_from_agent', {
         chatId: currentChat,
+        messageId: agentMessage.id,
         message: messageText || (fileUrl ? `📎 ${fileName}` : ''),
         agentId: String(telegramId),
         agentName,
@@ -1059,12 +2344,17 @@ app.post('/send', async (req, res) => {
     return res.status(400).json({ error: 'Missing chatId or message' });
   }
 
-  const chat = activeChats.get(chatId);
+  const chat = await chatStore.fetch(chatId);
 
   try {
     // Send via customer Telegram bot if it's a Telegram chat
+    let telegramMessageId: number | undefined;
     if (chat?.source === 'telegram' && chat.telegramUserId) {
-      await tgSend(customerBotUrl, chat.telegramUserId, message);
+      telegramMessageId = await tgSend(
+        customerBotUrl,
+        chat.telegramUserId,
+        message
+      );
     }
 
     // Store and emit agent message
@@ -1076,16 +2366,26 @@ app.post('/send', async (req, res) => {
       agentName,
     };
     storeMessage(chatId, agentMessage);
+    if (chat?.telegramUserId) {
+      addTelegramCopy(
+        chatId,
+        agentMessage,
+        'customer',
+        chat.telegramUserId,
+        telegramMessageId
+      );
+    }
 
     emitToDashboard('message_from_agent', {
       chatId,
+      messageId: agentMessage.id,
       message,
       agentId,
       agentName,
     });
     console.log(`👨‍💼 Agent ${agentName || agentId} sent message to ${chatId}`);
 
-    return res.json({ ok: true });
+    return res.json({ ok: true, messageId: agentMessage.id });
   } catch (err) {
     console.error('Failed to send message:', err);
     return res.status(500).json({ error: 'Failed to send message' });
@@ -1094,19 +2394,27 @@ app.post('/send', async (req, res) => {
 
 // Takeover chat: switch chat to human mode
 app.post('/takeover', async (req, res) => {
-  const { chatId, agentId, agentName } = req.body;
+  const { chatId, agentId } = req.body;
+  const agentName = req.body.agentName || agentDisplayName(agentId);
   if (!chatId || !agentId) {
     return res.status(400).json({ error: 'Missing chatId or agentId' });
   }
 
-  const chat = activeChats.get(String(chatId));
+  const chat = await chatStore.fetch(String(chatId));
 
   if (chat) {
     const previousMode = chat.mode;
     chat.mode = 'human';
+    delete chat.flow;
+    delete chat.escalation;
+    if (previousMode !== 'human') {
+      recordBotDecision(String(chatId), chat, 'handoff');
+    }
     chat.agentId = agentId;
     chat.agentName = agentName;
     chat.requestingHuman = false;
+    setChatStatus(String(chatId), statusAfterTakeover(chat));
+    chatStore.save(String(chatId));
 
     if (previousMode === 'bot' && agentName) {
       const systemMessage: Message = {
@@ -1136,12 +2444,13 @@ app.post('/release', async (req, res) => {
     return res.status(400).json({ error: 'Missing chatId' });
   }
 
-  const chat = activeChats.get(String(chatId));
+  const chat = await chatStore.fetch(String(chatId));
   if (chat) {
     chat.mode = 'bot';
     delete chat.agentId;
     delete chat.agentName;
     chat.requestingHuman = false;
+    chatStore.save(String(chatId));
   }
 
   emitToDashboard('chat_mode_changed', {
@@ -1153,6 +2462,21 @@ app.post('/release', async (req, res) => {
   return res.json({ ok: true });
 });
 
+// Close chat: mark it resolved and return it to the bot
+app.post('/close', async (req, res) => {
+  const { chatId, agentId } = req.body;
+  if (!chatId) {
+    return res.status(400).json({ error: 'Missing chatId' });
+  }
+
+  const agentName = req.body.agentName || agentDisplayName(agentId);
+  const closed = await closeChat(String(chatId), 'resolved', agentName);
+  if (!closed) {
+    return res.status(404).json({ error: 'Chat not found' });
+  }
+  return res.json({ ok: true });
+});
+
 // Get or create chat session (in-memory only)
 app.post('/api/chat/session', async (req, res) => {
   const { chatId, userId } = req.body;
@@ -1162,13 +2486,14 @@ app.post('/api/chat/session', async (req, res) => {
   }
 
   try {
-    let chat = activeChats.get(chatId);
+    let chat = await chatStore.fetch(chatId);
     let created = false;
 
     if (!chat) {
       // Create new chat session in memory
-      activeChats.set(chatId, {
+      chatStore.create(chatId, {
         mode: 'bot',
+        status: 'open',
         messages: [],
         source: 'web',
         userId: userId,
@@ -1180,13 +2505,14 @@ app.post('/api/chat/session', async (req, res) => {
       console.log(`✨ New web chat session created: ${chatId}`);
     }
 
-    chat = activeChats.get(chatId)!;
+    chat = chatStore.get(chatId)!;
 
     return res.json({
       session: {
         id: chatId,
         user_id: userId,
         mode: chat.mode,
+        status: chat.status,
         requesting_human: chat.requestingHuman,
         source: chat.source,
       },
@@ -1198,20 +2524,75 @@ app.post('/api/chat/session', async (req, res) => {
   }
 });
 
-// Load chat history (from memory)
+// Load chat history a page at a time, newest page first. Pass the returned
+// nextCursor as before to get the page before it.
 app.get('/api/chat/history/:chatId', async (req, res) => {
   const { chatId } = req.params;
+  const limit = Math.min(
+    Math.max(Number(req.query.limit) || HISTORY_PAGE_SIZE, 1),
+    HISTORY_MAX_PAGE_SIZE
+  );
+  let before: number | undefined;
+  if (req.query.before !== undefined) {
+    before = Number(req.query.before);
+    if (!Number.isInteger(before) || before < 1) {
+      return res.status(400).json({ error: 'Invalid before cursor' });
+    }
+  }
 
   try {
-    const chat = activeChats.get(chatId);
-    const messages = chat?.messages || [];
-    return res.json({ messages });
+    const page = await chatStore.loadHistoryPage(chatId, before, limit);
+    return res.json({ messages: page.messages, nextCursor: page.before });
   } catch (error: any) {
     console.error('Failed to load chat history:', error);
     return res.status(500).json({ error: error.message });
   }
 });
 
+// Delete a message from the history and from both Telegram bots
+app.delete('/api/chat/:chatId/messages/:messageId', async (req, res) => {
+  const { chatId, messageId } = req.params;
+
+  try {
+    const message = await chatStore.findMessage(
+      chatId,
+      (m) => m.id === messageId
+    );
+    if (!message || message.deletedAt) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+    await deleteMessage(chatId, message);
+    return res.json({ ok: true });
+  } catch (error: any) {
+    console.error('Failed to delete message:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Search chats by message text, customer name, organization or chat ID.
+// Customers' messages are personal data, so only agents may search them.
+app.get('/api/chat/search', requireAgent, async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const terms = searchTerms(query);
+  if (terms.length === 0) {
+    return res.status(400).json({ error: 'Missing search query q' });
+  }
+  const limit = Math.min(
+    Math.max(Number(req.query.limit) || 20, 1),
+    API_SEARCH_MAX_LIMIT
+  );
+
+  try {
+    const hits = await chatStore.search(query, limit);
+    return res.json({
+      results: hits.map((hit) => describeSearchHit(hit, terms)),
+    });
+  } catch (error: any) {
+    console.error('Failed to search chats:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
 // Get user's chat sessions (from memory)
 app.get('/api/chat/sessions/:userId', async (req, res) => {
   const { userId } = req.params;
@@ -1219,7 +2600,7 @@ app.get('/api/chat/sessions/:userId', async (req, res) => {
   try {
     const sessions: any[] = [];
 
-    for (const [chatId, chat] of activeChats.entries()) {
+    for (const [chatId, chat] of chatStore.entries()) {
       if (chat.userId === userId) {
         const lastMessage =
           chat.messages.length > 0
@@ -1229,9 +2610,10 @@ app.get('/api/chat/sessions/:userId', async (req, res) => {
         sessions.push({
           id: chatId,
           mode: chat.mode,
+          status: chat.status,
           source: chat.source,
           lastMessage: lastMessage?.text || 'No messages yet',
-          messageCount: chat.messages.length,
+          messageCount: chat.messageCount ?? chat.messages.length,
         });
       }
     }
@@ -1243,30 +2625,279 @@ app.get('/api/chat/sessions/:userId', async (req, res) => {
   }
 });
 
+// =====================================================
+// AGENT ROSTER
+// =====================================================
+
+// Only admins see and change the roster, see agentRoutes.ts
+app.use(
+  '/api/agents',
+  createAgentRouter(agentRoster, dashboardAuth, (telegramId) => {
+    // Drop the agent's open chat so it stops receiving forwarded messages
+    if (agentChatMap.delete(telegramId)) persistRouting();
+  })
+);
+
+// Support team schedule and whether it is on shift now
+app.get('/api/business-hours', (req, res) => {
+  const opening = nextOpening(BUSINESS_HOURS);
+  return res.json({
+    open: isOpen(BUSINESS_HOURS),
+    nextOpening: opening === undefined ? null : new Date(opening).toISOString(),
+    timeZone: BUSINESS_HOURS.timeZone,
+    schedule: describeBusinessHours(BUSINESS_HOURS) ?? null,
+    holidays: Array.from(BUSINESS_HOURS.holidays).sort(),
+    queuedChats: chatStore.entries().filter(([, chat]) => chat.queuedAt).length,
+  });
+});
+
+// =====================================================
+// AUTO-REPLIES, FLOWS AND KNOWLEDGE BASE
+// =====================================================
+
+// Bot flows and their steps, see flowDefinitions.ts
+app.get('/api/flows', (req, res) => {
+  return res.json({ flows: listFlows() });
+});
+
+// Knowledge base articles, without their text
+app.get('/api/knowledge', (req, res) => {
+  const articles = knowledgeBase
+    .articles()
+    .map(({ id, title, url, language }) => ({ id, title, url, language }));
+  return res.json({ articles, minConfidence: KNOWLEDGE_BASE_MIN_CONFIDENCE });
+});
+
+// Show which articles a text finds and whether the bot would send the best
+app.get('/api/knowledge/search', (req, res) => {
+  if (typeof req.query.q !== 'string' || !req.query.q.trim()) {
+    return res.status(400).json({ error: 'Missing q' });
+  }
+  const language = toLocale(req.query.language);
+  const matches = knowledgeBase.search(req.query.q, language);
+  return res.json({
+    matches,
+    answered: (matches[0]?.confidence ?? 0) >= KNOWLEDGE_BASE_MIN_CONFIDENCE,
+    minConfidence: KNOWLEDGE_BASE_MIN_CONFIDENCE,
+  });
+});
+
+// Agents may look at the rules; leads and admins change them
+const canReadAutoReplies = dashboardAuth.requireRole('agent', 'lead', 'admin');
+const canEditAutoReplies = dashboardAuth.requireRole('lead', 'admin');
+
+// List rules in the order they are checked
+app.get('/api/autoreplies', canReadAutoReplies, (req, res) => {
+  return res.json({ autoreplies: autoReplyRules.list() });
+});
+
+// Show which rule would answer a text and why, without sending anything.
+// With a chatId the reply is filled in for that chat, as it would be sent.
+app.post('/api/autoreplies/test', canReadAutoReplies, async (req, res) => {
+  if (typeof req.body.text !== 'string') {
+    return res.status(400).json({ error: 'Missing text' });
+  }
+  const chatId = req.body.chatId;
+  const chat =
+    typeof chatId === 'string' ? await chatStore.fetch(chatId) : undefined;
+  if (chatId !== undefined && !chat) {
+    return res.status(404).json({ error: 'Chat not found' });
+  }
+  const language = toLocale(req.body.language) ?? chat?.language;
+  const match = matchAutoReply(req.body.text, language);
+  if (match && chat) {
+    match.reply = await fillReplyTemplate(chatId, chat, match.reply);
+  }
+  return res.json({ match });
+});
+
+app.get('/api/autoreplies/:id', canReadAutoReplies, (req, res) => {
+  const rule = autoReplyRules.get(req.params.id);
+  if (!rule) {
+    return res.status(404).json({ error: 'Auto-reply not found' });
+  }
+  return res.json({ autoreply: rule });
+});
+
+// Add a rule (keywords and reply required)
+app.post('/api/autoreplies', canEditAutoReplies, (req, res) => {
+  const parsed = parseAutoReplyInput(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const rule = autoReplyRules.create({
+    ...parsed.input,
+    keywords: parsed.input.keywords!,
+    reply: parsed.input.reply!,
+  });
+  console.log(
+    `💬 Auto-reply ${rule.id} added by ${describeAgent(res.locals.agent)}`
+  );
+  return res.status(201).json({ autoreply: rule });
+});
+
+// Change some or all fields of a rule
+app.put('/api/autoreplies/:id', canEditAutoReplies, (req, res) => {
+  const existing = autoReplyRules.get(req.params.id);
+  if (!existing) {
+    return res.status(404).json({ error: 'Auto-reply not found' });
+  }
+  const parsed = parseAutoReplyInput(req.body, existing);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const rule = autoReplyRules.update(existing.id, parsed.input)!;
+  console.log(
+    `💬 Auto-reply ${rule.id} updated by ${describeAgent(res.locals.agent)}`
+  );
+  return res.json({ autoreply: rule });
+});
+
+app.delete('/api/autoreplies/:id', canEditAutoReplies, (req, res) => {
+  if (!autoReplyRules.remove(req.params.id)) {
+    return res.status(404).json({ error: 'Auto-reply not found' });
+  }
+  console.log(
+    `💬 Auto-reply ${req.params.id} removed by ${describeAgent(res.locals.agent)}`
+  );
+  return res.json({ ok: true });
+});
+
+// =====================================================
+// BOT ANALYTICS
+// =====================================================
+
+// A time given as ms since the epoch or as an ISO date; NaN if invalid
+function parseTime(value: unknown): number {
+  if (typeof value !== 'string' || !value) return NaN;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+// Rule hit counts, fallback rate and handoffs after each rule for a period,
+// by default the last ANALYTICS_DEFAULT_DAYS days
+app.get('/api/analytics/bot', requireAgent, async (req, res) => {
+  const to = req.query.to === undefined ? Date.now() : parseTime(req.query.to);
+  const from =
+    req.query.from === undefined
+      ? to - ANALYTICS_DEFAULT_DAYS * 24 * 60 * 60 * 1000
+      : parseTime(req.query.from);
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    return res.status(400).json({
+      error: 'from and to must be ISO dates or ms timestamps, from before to',
+    });
+  }
+
+  try {
+    const decisions = await chatStore.loadBotDecisions(from, to);
+    return res.json(
+      summarizeBotDecisions(decisions, autoReplyRules.list(), from, to)
+    );
+  } catch (error: any) {
+    console.error('Failed to build bot analytics:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// =====================================================
+// PRIVACY (data-subject requests)
+// =====================================================
+
+// userId is a web user ID or a Telegram user ID
+const PRIVACY_USER_ID = /^[\w-]{1,128}$/;
+
+// Export everything stored for a user as JSON
+app.get('/api/privacy/export/:userId', dashboardAuth.requireRole('admin'), async (req, res) => {
+  const { userId } = req.params;
+  if (!PRIVACY_USER_ID.test(userId)) {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+
+  try {
+    const data = await privacy.exportUserData(
+      userId,
+      describeAgent(res.locals.agent)
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="user-${userId}-export.json"`
+    );
+    return res.json(data);
+  } catch (error: any) {
+    console.error(`❌ Privacy export failed for user ${userId}:`, error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Erase a user's chats, messages and uploaded files
+app.delete('/api/privacy/:userId', dashboardAuth.requireRole('admin'), async (req, res) => {
+  const { userId } = req.params;
+  if (!PRIVACY_USER_ID.test(userId)) {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+
+  try {
+    const chatIds = await privacy.eraseUserData(
+      userId,
+      describeAgent(res.locals.agent)
+    );
+
+    // Nobody should keep routing messages into an erased chat, and nothing
+    // cached about it should outlive it
+    const erased = new Set(chatIds);
+    for (const chatId of chatIds) customerAccounts.delete(chatId);
+    for (const [id, suggestion] of replySuggestions) {
+      if (erased.has(suggestion.chatId)) replySuggestions.delete(id);
+    }
+    let routingChanged = false;
+    for (const routes of [userChatMap, agentChatMap] as Map<number, string>[]) {
+      for (const [id, chatId] of routes) {
+        if (erased.has(chatId)) routingChanged = routes.delete(id) || routingChanged;
+      }
+    }
+    if (routingChanged) persistRouting();
+
+    for (const chatId of chatIds) {
+      emitToDashboard('chat_deleted', { chatId });
+    }
+    return res.json({ ok: true, chatIds });
+  } catch (error: any) {
+    console.error(`❌ Privacy erasure failed for user ${userId}:`, error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
 // =====================================================
 // SOCKET.IO CONNECTIONS
 // =====================================================
 io.on('connection', (socket) => {
   console.log('✅ Client connected', socket.id);
 
-  // Send current activeChats snapshot
-  const snapshot = Array.from(activeChats.entries()).map(([chatId, state]) => ({
-    chatId,
-    mode: state.mode,
-    agentId: state.agentId,
-    agentName: state.agentName,
-    messages: state.messages,
-    source: state.source,
-    requestingHuman: state.requestingHuman,
-    userFirstName: state.userFirstName,
-    userLastName: state.userLastName,
-  }));
+  // Socket.IO ignores what a handler returns, so a failed store read in an
+  // async handler would be an unhandled rejection and stop the process.
+  // Handlers are registered through this instead, which logs the error and
+  // tells the client.
+  const on = (event: string, handler: (...args: any[]) => unknown) =>
+    socket.on(event, async (...args: any[]) => {
+      try {
+        await handler(...args);
+      } catch (error) {
+        console.error(`❌ Socket ${event} handler failed:`, error);
+        socket.emit('error', { message: 'server_error', event });
+      }
+    });
+
+  // Send a summary of each chat; messages load from the history route
+  const snapshot = chatStore
+    .entries()
+    .map(([chatId, state]) => toChatSummary(chatId, state));
 
   socket.emit('active_chats_snapshot', snapshot);
   console.log(`📸 Sent snapshot of ${snapshot.length} chats`);
 
   // Handle WEB USER MESSAGES
-  socket.on(
+  on(
     'user_message',
     async ({
       chatId,
@@ -1280,6 +2911,7 @@ io.on('connection', (socket) => {
       fileUrl,
       fileName,
       fileType,
+      language,
     }: {
       chatId: string;
       message?: string;
@@ -1292,6 +2924,7 @@ io.on('connection', (socket) => {
       fileUrl?: string;
       fileName?: string;
       fileType?: string;
+      language?: string;
     }) => {
       const messageText = message || text || '';
       const fName = firstName || userFirstName;
@@ -1301,12 +2934,13 @@ io.on('connection', (socket) => {
         `📨 Web user message from ${chatId}: ${messageText}${fileUrl ? ` [+ file: ${fileName}]` : ''}`
       );
 
-      const isNewChat = !activeChats.has(chatId);
+      const isNewChat = !(await chatStore.fetch(chatId));
 
       if (isNewChat) {
         // Create new chat for web user
-        activeChats.set(chatId, {
+        chatStore.create(chatId, {
           mode: 'bot',
+          status: 'open',
           messages: [],
           source: 'web',
           userFirstName: fName,
@@ -1330,13 +2964,20 @@ io.on('connection', (socket) => {
         // Notify all agents about new web chat
         await notifyAgents(chatId, messageText, true);
       } else {
-        const chat = activeChats.get(chatId)!;
+        const chat = chatStore.get(chatId)!;
         if (fName) chat.userFirstName = fName;
         if (lName) chat.userLastName = lName;
         if (userId) chat.userId = userId;
+        chatStore.save(chatId);
       }
 
-      const chat = activeChats.get(chatId)!;
+      const chat = chatStore.get(chatId)!;
+
+      // A customer writing into a finished chat reopens it
+      if (shouldReopen(chat)) {
+        setChatStatus(chatId, 'reopened');
+        chatStore.save(chatId);
+      }
 
       const userMessage: Message = {
         from: 'user',
@@ -1347,9 +2988,12 @@ io.on('connection', (socket) => {
         fileType,
       };
       storeMessage(chatId, userMessage, userId);
+      updateChatLanguage(chat, messageText, language);
+      chatStore.save(chatId);
 
       emitToDashboard('message_from_user', {
         chatId,
+        messageId: userMessage.id,
         text: messageText,
         from: chat.userFirstName
           ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
@@ -1361,8 +3005,8 @@ io.on('connection', (socket) => {
 
       // If in human mode, send message directly to the agent handling this chat
       if (chat.mode === 'human' && chat.agentId) {
-        const agentTelegramId = parseInt(chat.agentId);
-        if (!isNaN(agentTelegramId)) {
+        const agentTelegramId = agentRoster.resolveTelegramId(chat.agentId);
+        if (agentTelegramId !== undefined) {
           const senderName = chat.userFirstName
             ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
             : 'User';
@@ -1413,28 +3057,48 @@ io.on('connection', (socket) => {
             }
 
             // Send file to agent via Telegram (now with public URL)
+            let forwardedId: number | undefined;
             if (fileType?.startsWith('image/')) {
-              await axios.post(`${supportBotUrl}/sendPhoto`, {
+              const { data } = await axios.post(`${supportBotUrl}/sendPhoto`, {
                 chat_id: agentTelegramId,
                 photo: finalFileUrl,
                 caption: `💬 From <b>${senderName}</b> (Chat: <code>${chatId}</code>):\n\n${messageText}`,
                 parse_mode: 'HTML',
+                reply_markup: suggestReplyKeyboard(chatId),
               });
+              forwardedId = data.result?.message_id;
             } else {
-              await axios.post(`${supportBotUrl}/sendDocument`, {
+              const { data } = await axios.post(`${supportBotUrl}/sendDocument`, {
                 chat_id: agentTelegramId,
                 document: finalFileUrl,
                 caption: `💬 From <b>${senderName}</b> (Chat: <code>${chatId}</code>):\n\n${messageText}`,
                 parse_mode: 'HTML',
+                reply_markup: suggestReplyKeyboard(chatId),
               });
+              forwardedId = data.result?.message_id;
             }
+            addTelegramCopy(
+              chatId,
+              userMessage,
+              'support',
+              agentTelegramId,
+              forwardedId
+            );
 
             console.log(`✅ Sent file to agent: ${finalFileUrl}`);
           } else {
-            await tgSend(
+            const forwardedId = await tgSend(
               supportBotUrl,
               agentTelegramId,
-              `💬 From <b>${senderName}</b> (Chat: <code>${chatId}</code>):\n\n${messageText}`
+              `💬 From <b>${senderName}</b> (Chat: <code>${chatId}</code>):\n\n${messageText}`,
+              suggestReplyKeyboard(chatId)
+            );
+            addTelegramCopy(
+              chatId,
+              userMessage,
+              'support',
+              agentTelegramId,
+              forwardedId
             );
           }
           console.log(
@@ -1449,8 +3113,7 @@ io.on('connection', (socket) => {
         await handleBotReply(chatId, messageText, 'web');
       } else {
         // If only file, send acknowledgment
-        const botResponse =
-          'Thank you for sending that file! How can I help you today?';
+        const botResponse = botText('fileReceived', chat.language);
         const botMessage: Message = {
           from: 'bot',
           text: botResponse,
@@ -1463,26 +3126,29 @@ io.on('connection', (socket) => {
   );
 
   // Handle new chat creation
-  socket.on(
+  on(
     'create_new_chat',
     ({
       chatId,
       firstName,
       lastName,
       userId,
+      language,
     }: {
       chatId: string;
       firstName?: string;
       lastName?: string;
       userId?: string;
+      language?: string;
     }) => {
       console.log(
         `✨ Creating new web chat: ${chatId} for user ${firstName} ${lastName}`
       );
 
       // Create new chat session
-      activeChats.set(chatId, {
+      const chat = chatStore.create(chatId, {
         mode: 'bot',
+        status: 'open',
         messages: [],
         source: 'web',
         userFirstName: firstName,
@@ -1491,6 +3157,7 @@ io.on('connection', (socket) => {
         createdAt: Date.now(),
         lastActivityAt: Date.now(),
       });
+      updateChatLanguage(chat, '', language);
 
       // Notify dashboard about new chat
       emitToDashboard('chat_mode_changed', {
@@ -1503,39 +3170,48 @@ io.on('connection', (socket) => {
       // Send welcome message
       const welcomeMessage: Message = {
         from: 'bot',
-        text: '👋 Hello! How can I help you today?',
+        text: botText('welcome', chat.language),
         timestamp: Date.now(),
+        buttons: quickReplyButtons(MENU_QUICK_REPLIES, chat.language),
       };
       storeMessage(chatId, welcomeMessage, userId);
-      emitToDashboard('bot_message', { chatId, text: welcomeMessage.text });
+      emitToDashboard('bot_message', {
+        chatId,
+        text: welcomeMessage.text,
+        messageId: welcomeMessage.id,
+        buttons: welcomeMessage.buttons,
+      });
 
       console.log(`✅ New chat ${chatId} created successfully`);
     }
   );
 
   // Handle user info updates
-  socket.on(
+  on(
     'user_info',
-    ({
+    async ({
       chatId,
       firstName,
       lastName,
       userId,
+      language,
     }: {
       chatId: string;
       firstName?: string;
       lastName?: string;
       userId?: string;
+      language?: string;
     }) => {
-      let chat = activeChats.get(chatId);
+      let chat = await chatStore.fetch(chatId);
 
       // If chat doesn't exist, create it
       if (!chat) {
         console.log(
           `✨ Creating chat ${chatId} via user_info for user ${firstName} ${lastName}`
         );
-        activeChats.set(chatId, {
+        chatStore.create(chatId, {
           mode: 'bot',
+          status: 'open',
           messages: [],
           source: 'web',
           userFirstName: firstName,
@@ -1544,21 +3220,30 @@ io.on('connection', (socket) => {
           createdAt: Date.now(),
           lastActivityAt: Date.now(),
         });
-        chat = activeChats.get(chatId)!;
+        chat = chatStore.get(chatId)!;
+        updateChatLanguage(chat, '', language);
 
         // Send welcome message for new chat
         const welcomeMessage: Message = {
           from: 'bot',
-          text: '👋 Hello! How can I help you today?',
+          text: botText('welcome', chat.language),
           timestamp: Date.now(),
+          buttons: quickReplyButtons(MENU_QUICK_REPLIES, chat.language),
         };
         storeMessage(chatId, welcomeMessage, userId);
-        emitToDashboard('bot_message', { chatId, text: welcomeMessage.text });
+        emitToDashboard('bot_message', {
+          chatId,
+          text: welcomeMessage.text,
+          messageId: welcomeMessage.id,
+          buttons: welcomeMessage.buttons,
+        });
       } else {
         // Update existing chat info
         if (firstName) chat.userFirstName = firstName;
         if (lastName) chat.userLastName = lastName;
         if (userId) chat.userId = userId;
+        updateChatLanguage(chat, '', language);
+        chatStore.save(chatId);
       }
 
       emitToDashboard('chat_mode_changed', {
@@ -1573,94 +3258,48 @@ io.on('connection', (socket) => {
     }
   );
 
+  // Web customer clicked a quick-reply button under a bot message
+  on(
+    'quick_reply',
+    async ({ chatId, quickReplyId }: { chatId: string; quickReplyId: string }) => {
+      await handleQuickReply(chatId, quickReplyId, 'web');
+    }
+  );
+
   // Handle human support request
-  socket.on('request_human_support', async ({ chatId }: { chatId: string }) => {
-    const chat = activeChats.get(chatId);
+  on('request_human_support', async ({ chatId }: { chatId: string }) => {
+    const chat = await chatStore.fetch(chatId);
     if (chat) {
-      chat.requestingHuman = true;
-      emitToDashboard('human_support_requested', { chatId });
-      sendBotMessage(
-        chatId,
-        "🙋 I've notified our support team. An agent will join you shortly.",
-        chat.source
-      );
-
-      // Send immediate notification to all agents with inline button
-      const userName = chat.userFirstName
-        ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
-        : 'Anonymous';
-      const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
-
-      for (const agentId of registeredAgents) {
-        try {
-          await axios.post(`${supportBotUrl}/sendMessage`, {
-            chat_id: agentId,
-            text: `🙋 <b>SUPPORT REQUESTED!</b>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}\nID: <code>${chatId}</code>\n\nUser needs help!`,
-            parse_mode: 'HTML',
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: '📖 Open Chat', callback_data: `open_${chatId}` }],
-              ],
-            },
-          });
-        } catch (error) {
-          console.error(`Failed to notify agent ${agentId}:`, error);
-        }
-      }
-
-      console.log(
-        `🙋 Human support requested via button for chat ${chatId} - notified ${registeredAgents.size} agents`
-      );
+      await requestHumanAgent(chatId, chat, chat.source, 'customer_request');
     }
   });
 
-  socket.on('request_human', async ({ chatId }: { chatId: string }) => {
-    const chat = activeChats.get(chatId);
+  on('request_human', async ({ chatId }: { chatId: string }) => {
+    const chat = await chatStore.fetch(chatId);
     if (chat) {
-      chat.requestingHuman = true;
-      emitToDashboard('human_support_requested', { chatId });
-      sendBotMessage(
-        chatId,
-        "🙋 I've notified our support team. An agent will join you shortly.",
-        chat.source
-      );
-
-      // Send immediate notification to all agents with inline button
-      const userName = chat.userFirstName
-        ? `${chat.userFirstName} ${chat.userLastName || ''}`.trim()
-        : 'Anonymous';
-      const sourceIcon = chat.source === 'web' ? '🌐' : '📱';
-
-      for (const agentId of registeredAgents) {
-        try {
-          await axios.post(`${supportBotUrl}/sendMessage`, {
-            chat_id: agentId,
-            text: `🙋 <b>SUPPORT REQUESTED!</b>\n\n👤 User: ${userName}\n${sourceIcon} Source: ${chat.source}\nID: <code>${chatId}</code>\n\nUser needs help!`,
-            parse_mode: 'HTML',
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: '📖 Open Chat', callback_data: `open_${chatId}` }],
-              ],
-            },
-          });
-        } catch (error) {
-          console.error(`Failed to notify agent ${agentId}:`, error);
-        }
-      }
-
-      console.log(
-        `🙋 Human support requested for chat ${chatId} - notified ${registeredAgents.size} agents`
-      );
+      await requestHumanAgent(chatId, chat, chat.source, 'customer_request');
     }
   });
 
+  // Dashboard agent read a chat
+  on('mark_read', async ({ chatId }) => {
+    if (!(await chatStore.fetch(String(chatId)))) return;
+    markChatRead(String(chatId));
+    chatStore.save(String(chatId));
+  });
+
   // Dashboard sends message
-  socket.on('send_message', async ({ chatId, message, agentId, agentName }) => {
-    const chat = activeChats.get(String(chatId));
+  on('send_message', async ({ chatId, message, agentId, agentName }) => {
+    const chat = await chatStore.fetch(String(chatId));
 
     try {
+      let telegramMessageId: number | undefined;
       if (chat?.source === 'telegram' && chat.telegramUserId) {
-        await tgSend(customerBotUrl, chat.telegramUserId, message);
+        telegramMessageId = await tgSend(
+          customerBotUrl,
+          chat.telegramUserId,
+          message
+        );
       }
 
       const agentMessage: Message = {
@@ -1671,9 +3310,19 @@ io.on('connection', (socket) => {
         agentName,
       };
       storeMessage(String(chatId), agentMessage, chat?.userId);
+      if (chat?.telegramUserId) {
+        addTelegramCopy(
+          String(chatId),
+          agentMessage,
+          'customer',
+          chat.telegramUserId,
+          telegramMessageId
+        );
+      }
 
       emitToDashboard('message_from_agent', {
         chatId,
+        messageId: agentMessage.id,
         message,
         agentId,
         agentName,
@@ -1685,15 +3334,23 @@ io.on('connection', (socket) => {
   });
 
   // Takeover via socket
-  socket.on('takeover', async ({ chatId, agentId, agentName }) => {
-    const chat = activeChats.get(String(chatId));
+  on('takeover', async ({ chatId, agentId, agentName: name }) => {
+    const agentName = name || agentDisplayName(agentId);
+    const chat = await chatStore.fetch(String(chatId));
 
     if (chat) {
       const previousMode = chat.mode;
       chat.mode = 'human';
+      delete chat.flow;
+      delete chat.escalation;
+      if (previousMode !== 'human') {
+        recordBotDecision(String(chatId), chat, 'handoff');
+      }
       chat.agentId = agentId;
       chat.agentName = agentName;
       chat.requestingHuman = false;
+      setChatStatus(String(chatId), statusAfterTakeover(chat));
+      chatStore.save(String(chatId));
 
       // Store system message but don't emit to prevent showing to web user
       if (previousMode === 'bot' && agentName) {
@@ -1716,8 +3373,8 @@ io.on('connection', (socket) => {
   });
 
   // Release via socket
-  socket.on('release', async ({ chatId }) => {
-    const chat = activeChats.get(String(chatId));
+  on('release', async ({ chatId }) => {
+    const chat = await chatStore.fetch(String(chatId));
     if (chat) {
       const agentName = chat.agentName;
 
@@ -1735,6 +3392,7 @@ io.on('connection', (socket) => {
       delete chat.agentId;
       delete chat.agentName;
       chat.requestingHuman = false;
+      chatStore.save(String(chatId));
     }
 
     emitToDashboard('chat_mode_changed', {
@@ -1743,6 +3401,18 @@ io.on('connection', (socket) => {
     });
   });
 
+  // Close via socket
+  on('close_chat', async ({ chatId, agentId, agentName }) => {
+    const closed = await closeChat(
+      String(chatId),
+      'resolved',
+      agentName || agentDisplayName(agentId)
+    );
+    if (!closed) {
+      socket.emit('error', { message: 'chat_not_found' });
+    }
+  });
+
   socket.on('disconnect', () => {
     console.log('❌ Client disconnected', socket.id);
   });
@@ -1751,26 +3421,85 @@ io.on('connection', (socket) => {
 // =====================================================
 // SERVER STARTUP
 // =====================================================
-server.listen(PORT, () => {
-  console.log(`🚀 Server listening on port ${PORT}`);
-  console.log(`🌐 Frontend origin: ${FRONTEND_ORIGIN}`);
-  console.log(`📱 Webhook URL: ${WEBHOOK_URL}`);
-  console.log(`💬 Two-bot mode: Customer + Support agents via Telegram`);
-  console.log(`🔌 Socket.IO enabled for real-time dashboard`);
-  console.log(`👥 Registered agents: ${registeredAgents.size}`);
-  console.log(`\n📋 Customer Bot Webhook: ${WEBHOOK_URL}/webhook`);
-  console.log(
-    `📋 Support Bot Webhook: ${WEBHOOK_URL}/telegram/support/webhook`
-  );
-  console.log(
-    `\n⚠️  IMPORTANT: Agents must use /start in support bot to receive notifications!`
-  );
-});
+loadKnowledgeBase(KNOWLEDGE_BASE_DIR, KNOWLEDGE_BASE_URL)
+  .then((loaded) => {
+    knowledgeBase = loaded;
+  })
+  .catch((error) => {
+    console.error(`❌ Failed to load knowledge base from ${KNOWLEDGE_BASE_DIR}:`, error);
+  });
+
+Promise.all([chatStore.load(), agentRoster.load(), autoReplyRules.load()])
+  .then(restoreRouting)
+  .catch((error) => {
+    // Starting empty would overwrite the saved routing, agents and rules on
+    // the next save, so fix the store and restart instead
+    console.error(`❌ Failed to restore state from ${chatStore.kind} store:`, error);
+    console.error('❌ Not starting, so the stored state is not overwritten');
+    process.exit(1);
+  })
+  .then(() => {
+    // Chats loaded from the store may already be past the idle TTL
+    sweepIdleChats(chatStore, RETENTION, routedChatIds());
+    startRetentionSweeper(chatStore, RETENTION, routedChatIds);
+
+    // The memory store has nothing to reload rules from
+    if (AUTOREPLY_RELOAD_SECONDS > 0 && chatStore.kind !== 'memory') {
+      startAutoReplyReloader(autoReplyRules, AUTOREPLY_RELOAD_SECONDS * 1000);
+    }
+
+    if (BUSINESS_HOURS.periods.length > 0) {
+      startOpeningWatcher(BUSINESS_HOURS, () => {
+        sendQueuedChatsSummary().catch((error) => {
+          console.error('❌ Failed to send queued chats summary:', error);
+        });
+      });
+    }
+
+    if (CHAT_AUTO_CLOSE_HOURS > 0) {
+      startAutoCloseSweeper(
+        CHAT_AUTO_CLOSE_HOURS * 60 * 60 * 1000,
+        () => chatStore.entries(),
+        (chatId) => {
+          closeChat(chatId, 'closed').catch((error) => {
+            console.error(`❌ Failed to auto-close chat ${chatId}:`, error);
+          });
+        }
+      );
+    }
+
+    server.listen(PORT, () => {
+      console.log(`🚀 Server listening on port ${PORT}`);
+      console.log(`🌐 Frontend origin: ${FRONTEND_ORIGIN}`);
+      console.log(`📱 Webhook URL: ${WEBHOOK_URL}`);
+      console.log(`💬 Two-bot mode: Customer + Support agents via Telegram`);
+      console.log(`🔌 Socket.IO enabled for real-time dashboard`);
+      if (llm) {
+        const features = [
+          AI_REPLIES_ENABLED && 'replies',
+          AI_SUGGESTIONS_ENABLED && 'suggestions',
+          AI_SUMMARIES_ENABLED && 'summaries',
+        ].filter(Boolean);
+        console.log(
+          `✨ AI ${features.join(', ')} enabled (${llm.kind} ${llm.model})`
+        );
+      }
+      console.log(`👥 Registered agents: ${agentRoster.active().length}`);
+      console.log(`\n📋 Customer Bot Webhook: ${WEBHOOK_URL}/webhook`);
+      console.log(
+        `📋 Support Bot Webhook: ${WEBHOOK_URL}/telegram/support/webhook`
+      );
+      console.log(
+        `\n⚠️  IMPORTANT: Agents must use /start in support bot to receive notifications!`
+      );
+    });
+  });
 
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nReceived SIGINT, shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await chatStore.flush();
     console.log('Server closed');
     process.exit(0);
   });
@@ -1778,7 +3507,8 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   console.log('\nReceived SIGTERM, shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await chatStore.flush();
     console.log('Server closed');
     process.exit(0);
   });
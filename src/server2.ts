@@ -6,12 +6,20 @@ import cors from "cors";
 import dotenv from "dotenv";
 import { createClient } from "@supabase/supabase-js";
 import { getAutoReply } from "./getAutoReplies.js"; 
+import { handoffPolicyFromEnv, isHumanRequest } from "./handoff.js";
+import {
+  appendChatMessage,
+  importChatHistory,
+  loadChatMessages,
+  loadLastChatMessage,
+} from "./store/messageLog.js";
 // import { getAIReply } from "./aiReply.js";
 
 dotenv.config();
 
 const PORT = process.env.PORT || 3001;
 const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || "http://localhost:8080";
+const HANDOFF = handoffPolicyFromEnv();
 const TELEGRAM_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 const ENABLE_TELEGRAM = !!TELEGRAM_TOKEN;
 
@@ -63,7 +71,7 @@ interface ChatState {
 
 const activeChats = new Map<string, ChatState>();
 
-// Helper function to save message to Supabase (inserts individual message as a row)
+// Helper function to save message to Supabase (appends one row to chat_message_log)
 async function saveMessageToDatabase(chatId: string, message: Message, userId?: string) {
   if (!supabase || !userId) return;
 
@@ -91,42 +99,9 @@ async function saveMessageToDatabase(chatId: string, message: Message, userId?:
       console.log(`💾 Created chat session in database: ${chatId}`);
     }
 
-    // Check if chat_messages entry exists for this chat_id (ONE ROW PER CHAT)
-    const { data: existingMessages, error: selectError } = await supabase
-      .from('chat_messages')
-      .select('chat_id, chat_history')
-      .eq('chat_id', chatId)
-      // Only consider non-archived rows (archived is stored as boolean)
-      .eq('archived', false)
-      .maybeSingle();
-
-    if (selectError) {
-      console.error(`❌ Failed to read existing chat_messages row for ${chatId}:`, selectError);
-      return;
-    }
-    //@ts-expect-error type update
-    if (!existingMessages || existingMessages.archived === true) {
-      // Create new chat_messages entry with initial message in chat_history
-      await (supabase.from('chat_messages') as any).insert({
-        chat_id: chatId,
-        chat_history: [message]
-      });
-      console.log(`💾 Created chat_messages row with initial message: ${chatId}`);
-    } else {
-      // Append message to existing chat_history in the single row for this chat
-      const currentHistory = (existingMessages as any).chat_history || [];
-      const updatedHistory = [...currentHistory, message];
-      
-      await (supabase
-        .from('chat_messages') as any)
-        .update({ 
-          chat_history: updatedHistory,
-          updated_at: new Date().toISOString()
-        })
-        .eq('chat_id', chatId);
-      
-      console.log(`💾 Appended message to chat_history for chat ${chatId}`);
-    }
+    // Append-only: sequence number is assigned by the database
+    const seq = await appendChatMessage(supabase, chatId, message);
+    console.log(`💾 Appended message #${seq} for chat ${chatId}`);
 
     // Update chat session's updated_at
     await (supabase
@@ -139,23 +114,13 @@ async function saveMessageToDatabase(chatId: string, message: Message, userId?:
   }
 }
 
-// Helper function to load chat history from Supabase (from chat_history JSONB field in chat_messages table)
+// Helper function to load chat history from Supabase (rows of chat_message_log, in sequence order)
 async function loadChatHistoryFromDatabase(chatId: string): Promise<Message[]> {
   if (!supabase) return [];
 
   try {
-    const { data, error } = await supabase
-      .from('chat_messages')
-      .select('chat_history')
-      .eq('chat_id', chatId)
-      .maybeSingle();
-
-    if (error) {
-      console.error(`❌ Failed to load chat history:`, error);
-      return [];
-    }
-
-    return ((data as any)?.chat_history || []) as Message[];
+    const messagesByChat = await loadChatMessages(supabase, [chatId]);
+    return messagesByChat.get(chatId) || [];
   } catch (error) {
     console.error(`❌ Failed to load chat history:`, error);
     return [];
@@ -239,10 +204,8 @@ async function handleBotReply(chatId: string, text: string) {
   const chat = activeChats.get(chatId);
   if (!chat || chat.mode !== "bot") return;
 
-  const normalized = text.toLowerCase();
-
   // Check if user requested human agent
-  if (normalized === "agent" || normalized.includes("talk to human") || normalized.includes("speak to human") || normalized.includes("human support")) {
+  if (isHumanRequest(text, HANDOFF)) {
     // Set requesting human flag
     chat.requestingHuman = true;
     
@@ -599,17 +562,10 @@ app.get("/api/chat/sessions/:userId", async (req, res) => {
 
     if (error) throw error;
 
-    // Get last message for each session from chat_history JSONB
+    // Get last message for each session from chat_message_log
     const sessionsWithLastMessage = await Promise.all(
       (sessions || []).map(async (session: any) => {
-        const { data: chatMessages } = await supabase
-          .from('chat_messages')
-          .select('chat_history')
-          .eq('chat_id', session.id)
-          .maybeSingle();
-
-        const history = (chatMessages as any)?.chat_history || [];
-        const lastMessage = history.length > 0 ? history[history.length - 1] : null;
+        const lastMessage = await loadLastChatMessage(supabase!, session.id);
 
         return {
           ...session,
@@ -660,46 +616,16 @@ app.post("/api/chat/backfill", async (req, res) => {
             } as any);
           }
 
-          const { data: existingMessagesRow, error: existingMessagesError } = await supabase
-            .from('chat_messages' as any)
-            .select('id, chat_history, agent_id')
-            .eq('chat_id', chatId)
-            .maybeSingle();
-
-          if (existingMessagesError) {
-            throw existingMessagesError;
-          }
-
           const history = chatState.messages || [];
           if (history.length === 0) {
             continue;
           }
 
-          const historyRow = existingMessagesRow as { id: string; agent_id?: string | null } | null;
-
-          // Only set agent_id if it's a valid UUID (not a Telegram numeric ID)
-          const isUuid = chatState.agentId && chatState.agentId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
-          const validAgentId = isUuid ? chatState.agentId : null;
-
-          if (!historyRow) {
-            await (supabase.from('chat_messages') as any).insert({
-              chat_id: chatId,
-              agent_id: validAgentId,
-              chat_history: history
-            } as any);
-          } else {
-            await (supabase
-              .from('chat_messages') as any)
-              .update({
-                chat_history: history,
-                agent_id: validAgentId || historyRow.agent_id || null,
-                updated_at: new Date().toISOString()
-              } as any)
-              .eq('id', historyRow.id);
-          }
+          // Messages already in chat_message_log are skipped
+          const inserted = await importChatHistory(supabase, chatId, history);
 
           backfilledCount++;
-          console.log(`✅ Backfilled chat ${chatId} with ${history.length} messages`);
+          console.log(`✅ Backfilled chat ${chatId} with ${inserted} new of ${history.length} messages`);
         } catch (err: any) {
           console.error(`❌ Failed to backfill chat ${chatId}:`, err);
           errors.push(`${chatId}: ${err.message}`);
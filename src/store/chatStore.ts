@@ -0,0 +1,454 @@
+// chatStore.ts
+// Chat storage used by every handler in server.ts. Chats are served from
+// memory; the configured backend persists them so a restart or redeploy can
+// load them back, and so chats evicted from memory (see retention.ts) can be
+// fetched again.
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Agent,
+  AutoReplyRule,
+  BotDecision,
+  ChatState,
+  Message,
+  PrivacyAuditRecord,
+} from '../types.js';
+import { matchChat, searchTerms, sortSearchHits } from '../chatSearch.js';
+import type { ChatSearchHit } from '../chatSearch.js';
+import { pageOfMessages } from './messagePage.js';
+import type { MessagePage } from './messagePage.js';
+import { createMemoryPersistence } from './memoryChatStore.js';
+import { createFilePersistence } from './fileChatStore.js';
+import { createSupabasePersistence } from './supabaseChatStore.js';
+
+export type { MessagePage };
+
+export type ChatStoreKind = 'memory' | 'file' | 'supabase';
+
+// Routing maps from server.ts, as pairs so they can be passed to new Map()
+export interface RoutingSnapshot {
+  agentChats: [number, string][]; // agent telegram ID → active chat ID
+  userChats: [number, string][]; // Telegram user ID → current chat ID
+  registeredAgents?: number[]; // Legacy, agents now live in the agent roster
+}
+
+export interface ChatStore {
+  readonly kind: ChatStoreKind;
+  /** Loads persisted chats into memory. Call once before serving traffic. */
+  load(): Promise<void>;
+  get(chatId: string): ChatState | undefined;
+  has(chatId: string): boolean;
+  /**
+   * Like get, but loads the chat from the backend when it is not in memory
+   * (evicted or archived).
+   */
+  fetch(chatId: string): Promise<ChatState | undefined>;
+  /**
+   * Like fetch, but a chat that is not in memory is only read, not kept.
+   * Its messages are not loaded; use loadHistory.
+   */
+  peek(chatId: string): Promise<ChatState | undefined>;
+  /**
+   * A chat's full message history. Memory only keeps the latest messages of
+   * each chat; the backend has the rest.
+   */
+  loadHistory(chatId: string): Promise<Message[]>;
+  /** Up to limit messages stored before the cursor, or the latest ones. */
+  loadHistoryPage(
+    chatId: string,
+    before: number | undefined,
+    limit: number
+  ): Promise<MessagePage>;
+  /** Drops a chat from memory. The backend keeps it. */
+  evict(chatId: string): void;
+  /** IDs of all chats, in memory or not, whose userId or telegramUserId matches. */
+  findChatIdsByUser(userId: string): Promise<string[]>;
+  /** Chats matching a search query, most recent first. See chatSearch.ts. */
+  search(query: string, limit: number): Promise<ChatSearchHit[]>;
+  /** Deletes a chat and its messages from memory and the backend. */
+  delete(chatId: string): Promise<void>;
+  entries(): [string, ChatState][];
+  readonly size: number;
+  /** Adds a new chat and persists it. */
+  create(chatId: string, state: ChatState): ChatState;
+  /** Persists a chat after its fields were changed in place. */
+  save(chatId: string): void;
+  /**
+   * Appends a message to a chat, persists it and trims older ones from
+   * memory. Gives the message an ID if it has none.
+   */
+  appendMessage(chatId: string, message: Message): void;
+  /** The latest message of a chat that matches, searching its full history. */
+  findMessage(
+    chatId: string,
+    match: (message: Message) => boolean
+  ): Promise<Message | undefined>;
+  /** Persists a message after it was edited, deleted or sent to Telegram. */
+  updateMessage(chatId: string, message: Message): void;
+  /** Loads the routing maps saved by saveRouting. */
+  loadRouting(): Promise<RoutingSnapshot>;
+  /** Persists the routing maps. Later calls replace earlier ones. */
+  saveRouting(snapshot: RoutingSnapshot): void;
+  loadAgents(): Promise<Agent[]>;
+  /** Persists an agent record after it was created or changed. */
+  saveAgent(agent: Agent): void;
+  deleteAgent(telegramId: number): void;
+  loadAutoReplies(): Promise<AutoReplyRule[]>;
+  saveAutoReply(rule: AutoReplyRule): void;
+  deleteAutoReply(id: string): void;
+  /** Stores an audit record; resolves once it is written. */
+  recordPrivacyRequest(record: PrivacyAuditRecord): Promise<void>;
+  recordBotDecision(decision: BotDecision): void;
+  /** Decisions made from `from` up to `to` (ms), oldest first. */
+  loadBotDecisions(from: number, to: number): Promise<BotDecision[]>;
+  /** Waits for all pending writes. Used on shutdown. */
+  flush(): Promise<void>;
+}
+
+// What a backend has to implement. Calls for the same chat never overlap.
+export interface ChatPersistence {
+  /**
+   * Chats that are not archived, each with at least its latest maxMessages
+   * messages (0 for all).
+   */
+  loadChats(maxMessages: number): Promise<[string, ChatState][]>;
+  /** One chat, archived or not, with messages as for loadChats. */
+  loadChat(chatId: string, maxMessages: number): Promise<ChatState | null>;
+  /** Full history, or null if the backend does not keep messages. */
+  loadMessages(chatId: string): Promise<Message[] | null>;
+  /** See ChatStore.loadHistoryPage. Null if the backend does not keep messages. */
+  loadMessagePage(
+    chatId: string,
+    before: number | undefined,
+    limit: number
+  ): Promise<MessagePage | null>;
+  /** Stores the chat's fields; messages only arrive through appendMessage. */
+  saveChat(chatId: string, state: ChatState): Promise<void>;
+  appendMessage(chatId: string, message: Message, state: ChatState): Promise<void>;
+  /** Replaces the stored message with the same ID. */
+  updateMessage(chatId: string, message: Message): Promise<void>;
+  loadRouting(): Promise<RoutingSnapshot | null>;
+  saveRouting(snapshot: RoutingSnapshot): Promise<void>;
+  loadAgents(): Promise<Agent[]>;
+  saveAgent(agent: Agent): Promise<void>;
+  deleteAgent(telegramId: number): Promise<void>;
+  loadAutoReplies(): Promise<AutoReplyRule[]>;
+  saveAutoReply(rule: AutoReplyRule): Promise<void>;
+  deleteAutoReply(id: string): Promise<void>;
+  findChatIdsByUser(userId: string): Promise<string[]>;
+  /** The limit most recent chats matching the query, archived or not. */
+  searchChats(query: string, limit: number): Promise<ChatSearchHit[]>;
+  /** Deletes the chat, its messages and its bot decisions. */
+  deleteChat(chatId: string): Promise<void>;
+  recordPrivacyRequest(record: PrivacyAuditRecord): Promise<void>;
+  recordBotDecision(decision: BotDecision): Promise<void>;
+  loadBotDecisions(from: number, to: number): Promise<BotDecision[]>;
+  flush?(): Promise<void>;
+}
+
+export interface ChatStoreOptions {
+  kind: ChatStoreKind;
+  filePath?: string;
+  supabase?: SupabaseClient;
+  // Messages kept in memory per chat (0 keeps all). Older messages are only
+  // in the backend, or gone with the memory store.
+  maxMessagesInMemory?: number;
+}
+
+// Write queue keys for routing, agents, auto-replies and bot decisions;
+// cannot clash with a chat ID
+const ROUTING_KEY = '__routing__';
+const ANALYTICS_KEY = '__analytics__';
+const agentKey = (telegramId: number) => `__agent_${telegramId}__`;
+const autoReplyKey = (id: string) => `__autoreply_${id}__`;
+
+// Messages per backend read when findMessage looks past memory
+const FIND_MESSAGE_PAGE_SIZE = 200;
+
+const emptyRouting = (): RoutingSnapshot => ({
+  agentChats: [],
+  userChats: [],
+});
+
+function createCachedChatStore(
+  kind: ChatStoreKind,
+  persistence: ChatPersistence,
+  maxMessages: number
+): ChatStore {
+  const chats = new Map<string, ChatState>();
+  // Per-chat write queue so a chat's writes reach the backend in order
+  const pending = new Map<string, Promise<void>>();
+  // Chats being fetched from the backend, so parallel fetches share one load
+  const fetching = new Map<string, Promise<ChatState | undefined>>();
+
+  // Keeps the total in messageCount and only the latest messages in memory
+  function trimMessages(state: ChatState) {
+    state.messageCount = Math.max(
+      state.messageCount || 0,
+      state.messages.length
+    );
+    if (maxMessages > 0 && state.messages.length > maxMessages) {
+      state.messages.splice(0, state.messages.length - maxMessages);
+    }
+  }
+
+  async function fetchChat(chatId: string) {
+    // Wait for writes still queued from before the chat was evicted
+    await pending.get(chatId);
+    const state = await persistence.loadChat(chatId, maxMessages);
+    if (!state) return undefined;
+    // A message may have created the chat while it was loading
+    if (chats.has(chatId)) return chats.get(chatId);
+    if (!state.status) state.status = 'open';
+    trimMessages(state);
+    chats.set(chatId, state);
+    console.log(`💾 Fetched chat ${chatId} from ${kind} store`);
+    return state;
+  }
+
+  function enqueue(chatId: string, write: () => Promise<void>) {
+    const previous = pending.get(chatId) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch((error) => {
+        console.error(`❌ Failed to persist chat ${chatId}:`, error);
+      })
+      .finally(() => {
+        if (pending.get(chatId) === next) pending.delete(chatId);
+      });
+    pending.set(chatId, next);
+  }
+
+  return {
+    kind,
+
+    async load() {
+      const loaded = await persistence.loadChats(maxMessages);
+      for (const [chatId, state] of loaded) {
+        // Chats saved before lifecycle states existed
+        if (!state.status) state.status = 'open';
+        trimMessages(state);
+        chats.set(chatId, state);
+      }
+      console.log(`💾 Loaded ${loaded.length} chats from ${kind} store`);
+    },
+
+    get: (chatId) => chats.get(chatId),
+    has: (chatId) => chats.has(chatId),
+
+    async fetch(chatId) {
+      const cached = chats.get(chatId);
+      if (cached) return cached;
+
+      let loading = fetching.get(chatId);
+      if (!loading) {
+        loading = fetchChat(chatId).finally(() => fetching.delete(chatId));
+        fetching.set(chatId, loading);
+      }
+      return loading;
+    },
+
+    async peek(chatId) {
+      const cached = chats.get(chatId);
+      if (cached) return cached;
+      await pending.get(chatId);
+      const state = await persistence.loadChat(chatId, 1);
+      return state ? { ...state, messages: [] } : undefined;
+    },
+
+    async loadHistory(chatId) {
+      await pending.get(chatId);
+      const messages = await persistence.loadMessages(chatId);
+      return messages || chats.get(chatId)?.messages || [];
+    },
+
+    async loadHistoryPage(chatId, before, limit) {
+      await pending.get(chatId);
+      const page = await persistence.loadMessagePage(chatId, before, limit);
+      if (page) return page;
+
+      // Only memory has the messages; they are the latest messageCount ones
+      const chat = chats.get(chatId);
+      if (!chat) return { messages: [], before: null };
+      const total = chat.messageCount ?? chat.messages.length;
+      return pageOfMessages(
+        chat.messages,
+        total - chat.messages.length + 1,
+        before,
+        limit
+      );
+    },
+
+    evict(chatId) {
+      chats.delete(chatId);
+    },
+
+    async findChatIdsByUser(userId) {
+      const ids = new Set(await persistence.findChatIdsByUser(userId));
+      for (const [chatId, chat] of chats) {
+        if (chat.userId === userId || String(chat.telegramUserId) === userId) {
+          ids.add(chatId);
+        }
+      }
+      return Array.from(ids);
+    },
+
+    async search(query, limit) {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+
+      const hits = new Map<string, ChatSearchHit>();
+      for (const hit of await persistence.searchChats(query, limit)) {
+        hits.set(hit.chatId, hit);
+      }
+      // Memory is newer than the backend while writes are queued, but only
+      // has the latest messages of each chat
+      for (const [chatId, chat] of chats) {
+        const stored = hits.get(chatId);
+        const hit = matchChat(chatId, chat, chat.messages, terms);
+        if (hit) {
+          hits.set(chatId, { ...hit, message: hit.message || stored?.message });
+        } else if (stored) {
+          const { messages: _messages, ...fields } = chat;
+          stored.chat = fields;
+        }
+      }
+      return sortSearchHits(Array.from(hits.values())).slice(0, limit);
+    },
+
+    async delete(chatId) {
+      chats.delete(chatId);
+      // Let writes already queued finish so they cannot recreate the chat;
+      // errors are thrown to the caller rather than logged
+      await pending.get(chatId);
+      await persistence.deleteChat(chatId);
+    },
+    entries: () => Array.from(chats.entries()),
+    get size() {
+      return chats.size;
+    },
+
+    create(chatId, state) {
+      chats.set(chatId, state);
+      enqueue(chatId, () => persistence.saveChat(chatId, state));
+      return state;
+    },
+
+    save(chatId) {
+      const state = chats.get(chatId);
+      if (!state) return;
+      enqueue(chatId, () => persistence.saveChat(chatId, state));
+    },
+
+    appendMessage(chatId, message) {
+      const state = chats.get(chatId);
+      if (!state) return;
+      if (!message.id) message.id = randomUUID();
+      state.messages.push(message);
+      state.messageCount = (state.messageCount || 0) + 1;
+      state.lastActivityAt = Date.now();
+      trimMessages(state);
+      enqueue(chatId, () => persistence.appendMessage(chatId, message, state));
+    },
+
+    async findMessage(chatId, match) {
+      const inMemory = chats.get(chatId)?.messages || [];
+      for (let i = inMemory.length - 1; i >= 0; i--) {
+        if (match(inMemory[i])) return inMemory[i];
+      }
+      // Older messages are only in the backend; read back a page at a time
+      await pending.get(chatId);
+      let before: number | undefined;
+      do {
+        const page = await persistence.loadMessagePage(
+          chatId,
+          before,
+          FIND_MESSAGE_PAGE_SIZE
+        );
+        if (!page) return undefined;
+        for (let i = page.messages.length - 1; i >= 0; i--) {
+          if (match(page.messages[i])) return page.messages[i];
+        }
+        before = page.before ?? undefined;
+      } while (before !== undefined);
+      return undefined;
+    },
+
+    updateMessage(chatId, message) {
+      if (!message.id) return;
+      const messages = chats.get(chatId)?.messages;
+      const index = messages?.findIndex((m) => m.id === message.id) ?? -1;
+      if (messages && index >= 0) messages[index] = message;
+      enqueue(chatId, () => persistence.updateMessage(chatId, message));
+    },
+
+    async loadRouting() {
+      const snapshot = await persistence.loadRouting();
+      return { ...emptyRouting(), ...snapshot };
+    },
+
+    saveRouting(snapshot) {
+      enqueue(ROUTING_KEY, () => persistence.saveRouting(snapshot));
+    },
+
+    loadAgents: () => persistence.loadAgents(),
+
+    saveAgent(agent) {
+      enqueue(agentKey(agent.telegramId), () => persistence.saveAgent(agent));
+    },
+
+    deleteAgent(telegramId) {
+      enqueue(agentKey(telegramId), () => persistence.deleteAgent(telegramId));
+    },
+
+    loadAutoReplies: () => persistence.loadAutoReplies(),
+
+    saveAutoReply(rule) {
+      enqueue(autoReplyKey(rule.id), () => persistence.saveAutoReply(rule));
+    },
+
+    deleteAutoReply(id) {
+      enqueue(autoReplyKey(id), () => persistence.deleteAutoReply(id));
+    },
+
+    recordPrivacyRequest: (record) => persistence.recordPrivacyRequest(record),
+
+    recordBotDecision(decision) {
+      enqueue(ANALYTICS_KEY, () => persistence.recordBotDecision(decision));
+    },
+
+    loadBotDecisions: (from, to) => persistence.loadBotDecisions(from, to),
+
+    async flush() {
+      await Promise.all(Array.from(pending.values()));
+      if (persistence.flush) await persistence.flush();
+    },
+  };
+}
+
+export function createChatStore(options: ChatStoreOptions): ChatStore {
+  const maxMessages = options.maxMessagesInMemory || 0;
+  switch (options.kind) {
+    case 'file':
+      return createCachedChatStore(
+        'file',
+        createFilePersistence(options.filePath || './data/chats.json'),
+        maxMessages
+      );
+    case 'supabase':
+      if (!options.supabase) {
+        throw new Error('Supabase chat store requires a Supabase client');
+      }
+      return createCachedChatStore(
+        'supabase',
+        createSupabasePersistence(options.supabase),
+        maxMessages
+      );
+    default:
+      return createCachedChatStore(
+        'memory',
+        createMemoryPersistence(),
+        maxMessages
+      );
+  }
+}
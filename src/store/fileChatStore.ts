@@ -0,0 +1,266 @@
+// fileChatStore.ts
+// Local JSON file backend for development and single-instance deployments
+// with a persistent disk. The whole file is rewritten after a short delay,
+// so a burst of messages costs one write. The full history of every chat is
+// kept in this process, so memory grows with the file; use the Supabase
+// store in production.
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  Agent,
+  AutoReplyRule,
+  BotDecision,
+  ChatState,
+  Message,
+  PrivacyAuditRecord,
+} from '../types.js';
+import { pageOfMessages } from './messagePage.js';
+import type { ChatPersistence, RoutingSnapshot } from './chatStore.js';
+import { isArchived } from '../chatLifecycle.js';
+import { matchChat, searchTerms, sortSearchHits } from '../chatSearch.js';
+import type { ChatSearchHit } from '../chatSearch.js';
+
+const WRITE_DELAY_MS = 500;
+// The file keeps the latest bot decisions only
+const MAX_BOT_DECISIONS = 50000;
+
+interface ChatFile {
+  chats: Record<string, ChatState>;
+  routing?: RoutingSnapshot;
+  agents?: Agent[];
+  autoReplies?: AutoReplyRule[];
+  privacyAudit?: PrivacyAuditRecord[];
+  botDecisions?: BotDecision[];
+}
+
+export function createFilePersistence(filePath: string): ChatPersistence {
+  const chats = new Map<string, ChatState>();
+  let routing: RoutingSnapshot | null = null;
+  const agents = new Map<number, Agent>();
+  const autoReplies = new Map<string, AutoReplyRule>();
+  const privacyAudit: PrivacyAuditRecord[] = [];
+  let botDecisions: BotDecision[] = [];
+  let loaded: Promise<void> | null = null;
+  let writeTimer: NodeJS.Timeout | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  async function writeFile() {
+    // Writing after a failed read would replace the file with only what
+    // changed since; the rejected read stops it
+    await ensureLoaded();
+    const data: ChatFile = {
+      chats: Object.fromEntries(chats),
+      routing: routing || undefined,
+      agents: Array.from(agents.values()),
+      autoReplies: Array.from(autoReplies.values()),
+      privacyAudit,
+      botDecisions,
+    };
+    const tmpPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(data));
+    await fs.rename(tmpPath, filePath);
+  }
+
+  function scheduleWrite() {
+    if (writeTimer) return;
+    writeTimer = setTimeout(() => {
+      writeTimer = null;
+      writing = writing.then(writeFile).catch((error) => {
+        console.error(`❌ Failed to write chat file ${filePath}:`, error);
+      });
+    }, WRITE_DELAY_MS);
+  }
+
+  // Everything shares one file, so it is read once for all
+  async function readFile() {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      const data = JSON.parse(raw) as ChatFile;
+      for (const [chatId, state] of Object.entries(data.chats || {})) {
+        chats.set(chatId, state);
+      }
+      routing = data.routing || null;
+      for (const agent of data.agents || []) {
+        agents.set(agent.telegramId, agent);
+      }
+      for (const rule of data.autoReplies || []) {
+        autoReplies.set(rule.id, rule);
+      }
+      privacyAudit.push(...(data.privacyAudit || []));
+      botDecisions = data.botDecisions || [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      console.log(`ℹ️ No chat file at ${filePath} yet - starting empty`);
+    }
+  }
+
+  // Callers get their own copy, so trimming the in-memory chat does not
+  // shorten the history kept for the file
+  function copyChat(state: ChatState): ChatState {
+    return { ...state, messages: [...state.messages] };
+  }
+
+  // A failed read stays cached, so every later read and write fails too
+  // instead of working on an empty copy of the file
+  function ensureLoaded() {
+    loaded = loaded || readFile();
+    return loaded;
+  }
+
+  return {
+    async loadChats() {
+      await ensureLoaded();
+      // Archived chats stay in the file but are not loaded
+      return Array.from(chats.entries())
+        .filter(([, state]) => !isArchived(state))
+        .map(([chatId, state]): [string, ChatState] => [chatId, copyChat(state)]);
+    },
+
+    async loadChat(chatId) {
+      await ensureLoaded();
+      const state = chats.get(chatId);
+      return state ? copyChat(state) : null;
+    },
+
+    async loadMessages(chatId) {
+      await ensureLoaded();
+      return [...(chats.get(chatId)?.messages || [])];
+    },
+
+    async loadMessagePage(chatId, before, limit) {
+      await ensureLoaded();
+      return pageOfMessages(chats.get(chatId)?.messages || [], 1, before, limit);
+    },
+
+    async loadRouting() {
+      await ensureLoaded();
+      return routing;
+    },
+
+    async saveRouting(snapshot) {
+      await ensureLoaded();
+      routing = snapshot;
+      scheduleWrite();
+    },
+
+    async loadAgents() {
+      await ensureLoaded();
+      return Array.from(agents.values());
+    },
+
+    async saveAgent(agent) {
+      await ensureLoaded();
+      agents.set(agent.telegramId, agent);
+      scheduleWrite();
+    },
+
+    async deleteAgent(telegramId) {
+      await ensureLoaded();
+      agents.delete(telegramId);
+      scheduleWrite();
+    },
+
+    async loadAutoReplies() {
+      await ensureLoaded();
+      return Array.from(autoReplies.values());
+    },
+
+    async saveAutoReply(rule) {
+      await ensureLoaded();
+      autoReplies.set(rule.id, rule);
+      scheduleWrite();
+    },
+
+    async deleteAutoReply(id) {
+      await ensureLoaded();
+      autoReplies.delete(id);
+      scheduleWrite();
+    },
+
+    async saveChat(chatId, state) {
+      await ensureLoaded();
+      const messages: Message[] = chats.get(chatId)?.messages || [];
+      chats.set(chatId, { ...state, messages });
+      scheduleWrite();
+    },
+
+    async appendMessage(chatId, message, state) {
+      await ensureLoaded();
+      const stored = chats.get(chatId);
+      if (stored) {
+        stored.messages.push(message);
+        stored.lastActivityAt = state.lastActivityAt;
+      } else {
+        chats.set(chatId, { ...state, messages: [message] });
+      }
+      scheduleWrite();
+    },
+
+    async updateMessage(chatId, message) {
+      await ensureLoaded();
+      const messages = chats.get(chatId)?.messages || [];
+      const index = messages.findIndex((m) => m.id === message.id);
+      if (index < 0) return;
+      messages[index] = message;
+      scheduleWrite();
+    },
+
+    async findChatIdsByUser(userId) {
+      await ensureLoaded();
+      return Array.from(chats.entries())
+        .filter(
+          ([, state]) =>
+            state.userId === userId || String(state.telegramUserId) === userId
+        )
+        .map(([chatId]) => chatId);
+    },
+
+    async searchChats(query, limit) {
+      await ensureLoaded();
+      const terms = searchTerms(query);
+      const hits: ChatSearchHit[] = [];
+      for (const [chatId, state] of chats) {
+        const hit = matchChat(chatId, state, state.messages, terms);
+        if (hit) hits.push(hit);
+      }
+      return sortSearchHits(hits).slice(0, limit);
+    },
+
+    async deleteChat(chatId) {
+      await ensureLoaded();
+      chats.delete(chatId);
+      botDecisions = botDecisions.filter((d) => d.chatId !== chatId);
+      scheduleWrite();
+    },
+
+    async recordPrivacyRequest(record) {
+      await ensureLoaded();
+      privacyAudit.push(record);
+      scheduleWrite();
+    },
+
+    async recordBotDecision(decision) {
+      await ensureLoaded();
+      botDecisions.push(decision);
+      if (botDecisions.length > MAX_BOT_DECISIONS) {
+        botDecisions = botDecisions.slice(-MAX_BOT_DECISIONS);
+      }
+      scheduleWrite();
+    },
+
+    async loadBotDecisions(from, to) {
+      await ensureLoaded();
+      return botDecisions.filter((d) => d.at >= from && d.at <= to);
+    },
+
+    async flush() {
+      if (writeTimer) {
+        clearTimeout(writeTimer);
+        writeTimer = null;
+        writing = writing.then(writeFile);
+      }
+      await writing;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+// memoryChatStore.ts
+// No-op backend: chats live only in the process and are lost on restart.
+// Bot decisions are kept here, since nothing else holds them.
+import type { ChatPersistence } from './chatStore.js';
+import type { BotDecision } from '../types.js';
+
+// Oldest decisions are dropped beyond this
+const MAX_BOT_DECISIONS = 10000;
+
+export function createMemoryPersistence(): ChatPersistence {
+  let botDecisions: BotDecision[] = [];
+
+  return {
+    async loadChats() {
+      return [];
+    },
+    async loadChat() {
+      return null;
+    },
+    async loadMessages() {
+      return null;
+    },
+    async loadMessagePage() {
+      return null;
+    },
+    async saveChat() {},
+    async appendMessage() {},
+    async updateMessage() {},
+    async loadRouting() {
+      return null;
+    },
+    async saveRouting() {},
+    async loadAgents() {
+      return [];
+    },
+    async saveAgent() {},
+    async deleteAgent() {},
+    async loadAutoReplies() {
+      return [];
+    },
+    async saveAutoReply() {},
+    async deleteAutoReply() {},
+    async findChatIdsByUser() {
+      return [];
+    },
+    async searchChats() {
+      // The chat store searches the chats in memory
+      return [];
+    },
+    async deleteChat(chatId) {
+      botDecisions = botDecisions.filter((d) => d.chatId !== chatId);
+    },
+    async recordPrivacyRequest(record) {
+      // Nothing durable to write to; the log is the only trace
+      console.log('🔏 Privacy request:', JSON.stringify(record));
+    },
+    async recordBotDecision(decision) {
+      botDecisions.push(decision);
+      if (botDecisions.length > MAX_BOT_DECISIONS) {
+        botDecisions = botDecisions.slice(-MAX_BOT_DECISIONS);
+      }
+    },
+    async loadBotDecisions(from, to) {
+      return botDecisions.filter((d) => d.at >= from && d.at <= to);
+    },
+  };
+}
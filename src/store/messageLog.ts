@@ -0,0 +1,181 @@
+// messageLog.ts
+// Access to the append-only chat_message_log table (see
+// migrations/004_chat_message_log.sql). Rows are only rewritten when a
+// message is edited or deleted, by its message ID. Used by the Supabase chat
+// store and by server2.ts.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Message } from '../types.js';
+import type { MessagePage } from './messagePage.js';
+
+const LOAD_PAGE_SIZE = 1000;
+// Chat IDs per request; .in() filters go in the URL
+const CHAT_ID_BATCH_SIZE = 100;
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+// A chat_message_log row as the loaders select it
+interface MessageRow {
+  chat_id: string;
+  message: Message;
+}
+
+function addRows(messagesByChat: Map<string, Message[]>, rows: MessageRow[]) {
+  for (const row of rows) {
+    const messages = messagesByChat.get(row.chat_id) || [];
+    messages.push(row.message);
+    messagesByChat.set(row.chat_id, messages);
+  }
+}
+
+/** Appends one message in a single query and returns its sequence number. */
+export async function appendChatMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  message: Message
+): Promise<number> {
+  const { data, error } = await supabase.rpc('append_chat_message', {
+    p_chat_id: chatId,
+    p_message: message,
+  });
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * Stores a chat's full in-memory history, skipping messages the log already
+ * has. Returns how many messages were added.
+ */
+export async function importChatHistory(
+  supabase: SupabaseClient,
+  chatId: string,
+  messages: Message[]
+): Promise<number> {
+  const { data, error } = await supabase.rpc('import_chat_history', {
+    p_chat_id: chatId,
+    p_messages: messages,
+  });
+  if (error) throw error;
+  return data as number;
+}
+
+/** Replaces a stored message, found by its ID. */
+export async function updateChatMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  message: Message
+): Promise<void> {
+  const { error } = await supabase
+    .from('chat_message_log')
+    .update({ message })
+    .eq('chat_id', chatId)
+    .eq('message->>id', message.id);
+  if (error) throw error;
+}
+
+/** Loads the messages of several chats, oldest first. */
+export async function loadChatMessages(
+  supabase: SupabaseClient,
+  chatIds: string[]
+): Promise<Map<string, Message[]>> {
+  const messagesByChat = new Map<string, Message[]>();
+
+  for (const batch of batches(chatIds, CHAT_ID_BATCH_SIZE)) {
+    // PostgREST caps rows per request, so read in pages
+    for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('chat_message_log')
+        .select('chat_id, message')
+        .in('chat_id', batch)
+        .order('chat_id')
+        .order('seq')
+        .range(from, from + LOAD_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      addRows(messagesByChat, data || []);
+      if (!data || data.length < LOAD_PAGE_SIZE) break;
+    }
+  }
+  return messagesByChat;
+}
+
+/**
+ * Loads the latest limit messages of several chats, oldest first (see
+ * migrations/015_latest_chat_messages.sql). A limit of 0 loads them all.
+ */
+export async function loadLatestChatMessages(
+  supabase: SupabaseClient,
+  chatIds: string[],
+  limit: number
+): Promise<Map<string, Message[]>> {
+  if (limit <= 0) return loadChatMessages(supabase, chatIds);
+  const messagesByChat = new Map<string, Message[]>();
+
+  for (const batch of batches(chatIds, CHAT_ID_BATCH_SIZE)) {
+    for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .rpc('load_latest_chat_messages', {
+          p_chat_ids: batch,
+          p_limit: limit,
+        })
+        .order('chat_id')
+        .order('seq')
+        .range(from, from + LOAD_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      // The RPC is untyped; its rows also have seq
+      const rows: MessageRow[] = data || [];
+      addRows(messagesByChat, rows);
+      if (rows.length < LOAD_PAGE_SIZE) break;
+    }
+  }
+  return messagesByChat;
+}
+
+/** Up to limit messages with seq below before (or the latest), oldest first. */
+export async function loadChatMessagePage(
+  supabase: SupabaseClient,
+  chatId: string,
+  before: number | undefined,
+  limit: number
+): Promise<MessagePage> {
+  let query = supabase
+    .from('chat_message_log')
+    .select('seq, message')
+    .eq('chat_id', chatId);
+  if (before !== undefined) query = query.lt('seq', before);
+
+  const { data, error } = await query
+    .order('seq', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  const rows = (data || []).reverse();
+  const first = rows[0]?.seq as number | undefined;
+  return {
+    messages: rows.map((row: any) => row.message as Message),
+    before: first !== undefined && first > 1 ? first : null,
+  };
+}
+
+/** Returns the latest message of a chat, or null if it has none. */
+export async function loadLastChatMessage(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<Message | null> {
+  const { data, error } = await supabase
+    .from('chat_message_log')
+    .select('message')
+    .eq('chat_id', chatId)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.message as Message) || null;
+}
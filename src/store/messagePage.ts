@@ -0,0 +1,31 @@
+// messagePage.ts
+// History pages for ChatStore.loadHistoryPage.
+import type { Message } from '../types.js';
+
+// One page of a chat's history. Messages are numbered from 1 in the order
+// they were stored; before is that number.
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  before: number | null; // Cursor for the previous page, null at the start
+}
+
+/**
+ * Cuts a page out of consecutive messages, the first of which is number
+ * firstNumber. Messages before firstNumber are not available.
+ */
+export function pageOfMessages(
+  messages: Message[],
+  firstNumber: number,
+  before: number | undefined,
+  limit: number
+): MessagePage {
+  const end =
+    before === undefined
+      ? messages.length
+      : Math.max(0, Math.min(messages.length, before - firstNumber));
+  const start = Math.max(0, end - limit);
+  return {
+    messages: messages.slice(start, end),
+    before: start > 0 ? firstNumber + start : null,
+  };
+}
@@ -0,0 +1,374 @@
+// supabaseChatStore.ts
+// Supabase backend. Chat state goes to the bot_chats table (see
+// migrations/001_bot_chats.sql) and messages to the append-only
+// chat_message_log table (messageLog.ts). Routing maps
+// are one row in bot_state (migrations/002_bot_state.sql), agents are rows
+// in support_agents (migrations/003_support_agents_profile.sql) and privacy
+// requests are logged to privacy_audit_log (migrations/005_privacy_audit_log.sql).
+// Search runs in the database (migrations/006_chat_search.sql) and auto-reply
+// rules are rows in bot_autoreplies (migrations/008_bot_autoreplies.sql and
+// 009_autoreply_matching.sql). Bot decisions go to bot_decisions
+// (migrations/011_bot_decisions.sql). Only the latest messages of each chat
+// are loaded into memory (migrations/015_latest_chat_messages.sql).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Agent,
+  AutoReplyRule,
+  BotDecision,
+  ChatState,
+  Message,
+  PrivacyAuditRecord,
+} from '../types.js';
+import type { ChatPersistence, RoutingSnapshot } from './chatStore.js';
+import type { ChatSearchHit } from '../chatSearch.js';
+import {
+  appendChatMessage,
+  loadChatMessagePage,
+  loadChatMessages,
+  loadLatestChatMessages,
+  updateChatMessage,
+} from './messageLog.js';
+import { isArchived } from '../chatLifecycle.js';
+
+const ROUTING_STATE_KEY = 'routing';
+const BOT_DECISION_PAGE_SIZE = 1000;
+const CHAT_PAGE_SIZE = 1000;
+
+// Chat state without the message list, as stored in bot_chats.state
+function toStoredState(state: ChatState): Omit<ChatState, 'messages'> {
+  const { messages, ...rest } = state;
+  return rest;
+}
+
+function toChatState(storedState: any, messages: Message[]): ChatState {
+  const state: ChatState = { ...storedState, messages };
+  const lastMessage = messages[messages.length - 1];
+  // lastActivityAt is only written with the chat state, not per message
+  if (lastMessage && lastMessage.timestamp > state.lastActivityAt) {
+    state.lastActivityAt = lastMessage.timestamp;
+  }
+  return state;
+}
+
+function toAuditRow(record: PrivacyAuditRecord) {
+  return {
+    action: record.action,
+    subject_id: record.subjectId,
+    requested_by: record.requestedBy || null,
+    requested_at: new Date(record.requestedAt).toISOString(),
+    chat_ids: record.chatIds,
+    message_count: record.messageCount,
+    file_count: record.fileCount,
+    outcome: record.outcome,
+    error: record.error || null,
+  };
+}
+
+function toBotDecisionRow(decision: BotDecision) {
+  return {
+    chat_id: decision.chatId,
+    source: decision.source,
+    outcome: decision.outcome,
+    rule_id: decision.ruleId || null,
+    flow_id: decision.flowId || null,
+    article_id: decision.articleId || null,
+    reason: decision.reason || null,
+    locale: decision.locale || null,
+    created_at: new Date(decision.at).toISOString(),
+  };
+}
+
+function fromBotDecisionRow(row: any): BotDecision {
+  return {
+    chatId: row.chat_id,
+    source: row.source,
+    outcome: row.outcome,
+    ruleId: row.rule_id || undefined,
+    flowId: row.flow_id || undefined,
+    articleId: row.article_id || undefined,
+    reason: row.reason || undefined,
+    locale: row.locale || undefined,
+    at: Date.parse(row.created_at),
+  };
+}
+
+function toAutoReplyRow(rule: AutoReplyRule) {
+  return {
+    id: rule.id,
+    keywords: rule.keywords,
+    exclude_keywords: rule.excludeKeywords || [],
+    match_mode: rule.mode || 'word',
+    reply: rule.reply,
+    translations: rule.translations || {},
+    enabled: rule.enabled,
+    priority: rule.priority,
+    created_at: new Date(rule.createdAt).toISOString(),
+    updated_at: new Date(rule.updatedAt).toISOString(),
+  };
+}
+
+function fromAutoReplyRow(row: any): AutoReplyRule {
+  return {
+    id: row.id,
+    keywords: row.keywords || [],
+    excludeKeywords: row.exclude_keywords || [],
+    mode: row.match_mode || 'word',
+    reply: row.reply,
+    translations: row.translations || {},
+    enabled: row.enabled !== false,
+    priority: row.priority || 0,
+    createdAt: Date.parse(row.created_at) || Date.now(),
+    updatedAt: Date.parse(row.updated_at) || Date.now(),
+  };
+}
+
+function toAgentRow(agent: Agent) {
+  return {
+    telegram_id: agent.telegramId,
+    name: agent.displayName,
+    dashboard_user_id: agent.dashboardUserId || null,
+    roles: agent.roles,
+    is_active: agent.active,
+    created_at: new Date(agent.createdAt).toISOString(),
+    last_seen_at: new Date(agent.lastSeenAt).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function fromAgentRow(row: any): Agent {
+  return {
+    telegramId: Number(row.telegram_id),
+    displayName: row.name || 'Agent',
+    dashboardUserId: row.dashboard_user_id || undefined,
+    roles: row.roles || ['agent'],
+    active: row.is_active !== false,
+    createdAt: Date.parse(row.created_at) || Date.now(),
+    lastSeenAt: Date.parse(row.last_seen_at || row.updated_at) || Date.now(),
+  };
+}
+
+export function createSupabasePersistence(
+  supabase: SupabaseClient
+): ChatPersistence {
+  return {
+    async loadChats(maxMessages) {
+      // PostgREST caps rows per request, so read in pages
+      const rows: any[] = [];
+      for (let from = 0; ; from += CHAT_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('bot_chats')
+          .select('id, state')
+          .eq('archived', false)
+          .order('id')
+          .range(from, from + CHAT_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < CHAT_PAGE_SIZE) break;
+      }
+      if (rows.length === 0) return [];
+
+      const ids = rows.map((row: any) => row.id as string);
+      const historyByChat = await loadLatestChatMessages(
+        supabase,
+        ids,
+        maxMessages
+      );
+
+      return rows.map((row: any): [string, ChatState] => [
+        row.id,
+        toChatState(row.state, historyByChat.get(row.id) || []),
+      ]);
+    },
+
+    async loadChat(chatId, maxMessages) {
+      const { data: row, error } = await supabase
+        .from('bot_chats')
+        .select('state')
+        .eq('id', chatId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!row) return null;
+
+      const historyByChat = await loadLatestChatMessages(
+        supabase,
+        [chatId],
+        maxMessages
+      );
+      return toChatState(row.state, historyByChat.get(chatId) || []);
+    },
+
+    async loadMessages(chatId) {
+      const historyByChat = await loadChatMessages(supabase, [chatId]);
+      return historyByChat.get(chatId) || [];
+    },
+
+    loadMessagePage: (chatId, before, limit) =>
+      loadChatMessagePage(supabase, chatId, before, limit),
+
+    async saveChat(chatId, state) {
+      const { error } = await supabase.from('bot_chats').upsert({
+        id: chatId,
+        state: toStoredState(state),
+        archived: isArchived(state),
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    },
+
+    async appendMessage(chatId, message) {
+      await appendChatMessage(supabase, chatId, message);
+    },
+
+    async updateMessage(chatId, message) {
+      await updateChatMessage(supabase, chatId, message);
+    },
+
+    async loadRouting() {
+      const { data, error } = await supabase
+        .from('bot_state')
+        .select('value')
+        .eq('key', ROUTING_STATE_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.value as RoutingSnapshot) || null;
+    },
+
+    async saveRouting(snapshot) {
+      const { error } = await supabase.from('bot_state').upsert({
+        key: ROUTING_STATE_KEY,
+        value: snapshot,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    },
+
+    async loadAgents() {
+      const { data, error } = await supabase
+        .from('support_agents')
+        .select('*');
+
+      if (error) throw error;
+      return (data || []).map(fromAgentRow);
+    },
+
+    async saveAgent(agent) {
+      const { error } = await supabase
+        .from('support_agents')
+        .upsert(toAgentRow(agent), { onConflict: 'telegram_id' });
+      if (error) throw error;
+    },
+
+    async deleteAgent(telegramId) {
+      const { error } = await supabase
+        .from('support_agents')
+        .delete()
+        .eq('telegram_id', telegramId);
+      if (error) throw error;
+    },
+
+    async loadAutoReplies() {
+      const { data, error } = await supabase.from('bot_autoreplies').select('*');
+      if (error) throw error;
+      return (data || []).map(fromAutoReplyRow);
+    },
+
+    async saveAutoReply(rule) {
+      const { error } = await supabase
+        .from('bot_autoreplies')
+        .upsert(toAutoReplyRow(rule));
+      if (error) throw error;
+    },
+
+    async deleteAutoReply(id) {
+      const { error } = await supabase
+        .from('bot_autoreplies')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+
+    async findChatIdsByUser(userId) {
+      // userId is validated by the caller, so it is safe in a filter string
+      const { data: chats, error } = await supabase
+        .from('bot_chats')
+        .select('id')
+        .or(`state->>userId.eq.${userId},state->>telegramUserId.eq.${userId}`);
+      if (error) throw error;
+
+      // Chats from before the chat store only have a chat_sessions row
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('chat_sessions')
+        .select('id')
+        .eq('user_id', userId);
+      if (sessionsError) throw sessionsError;
+
+      return [...(chats || []), ...(sessions || [])].map(
+        (row: any) => row.id as string
+      );
+    },
+
+    async searchChats(query, limit) {
+      const { data, error } = await supabase.rpc('search_chats', {
+        p_query: query,
+        p_limit: limit,
+      });
+      if (error) throw error;
+
+      return (data || []).map(
+        (row: any): ChatSearchHit => ({
+          chatId: row.chat_id,
+          chat: row.state || null,
+          message: row.message || undefined,
+        })
+      );
+    },
+
+    async deleteChat(chatId) {
+      for (const [table, column] of [
+        ['chat_message_log', 'chat_id'],
+        ['chat_messages', 'chat_id'],
+        ['chat_sessions', 'id'],
+        ['bot_decisions', 'chat_id'],
+        ['bot_chats', 'id'],
+      ]) {
+        const { error } = await supabase.from(table).delete().eq(column, chatId);
+        if (error) throw error;
+      }
+    },
+
+    async recordPrivacyRequest(record) {
+      const { error } = await supabase
+        .from('privacy_audit_log')
+        .insert(toAuditRow(record));
+      if (error) throw error;
+    },
+
+    async recordBotDecision(decision) {
+      const { error } = await supabase
+        .from('bot_decisions')
+        .insert(toBotDecisionRow(decision));
+      if (error) throw error;
+    },
+
+    async loadBotDecisions(from, to) {
+      const decisions: BotDecision[] = [];
+      for (let offset = 0; ; offset += BOT_DECISION_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('bot_decisions')
+          .select('*')
+          .gte('created_at', new Date(from).toISOString())
+          .lte('created_at', new Date(to).toISOString())
+          .order('id', { ascending: true })
+          .range(offset, offset + BOT_DECISION_PAGE_SIZE - 1);
+        if (error) throw error;
+
+        decisions.push(...(data || []).map(fromBotDecisionRow));
+        if (!data || data.length < BOT_DECISION_PAGE_SIZE) break;
+      }
+      return decisions;
+    },
+  };
+}
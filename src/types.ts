@@ -0,0 +1,197 @@
+// types.ts
+// Shared chat types used by the server and the chat store backends.
+
+// A copy of a message in a Telegram chat, so edits and deletes can reach it
+export interface TelegramMessageRef {
+  bot: 'customer' | 'support';
+  chatId: number; // Telegram chat the copy is in
+  messageId: number; // Telegram message_id
+}
+
+// A button under a bot message. Clicking it answers with the quick reply's
+// text, see botMessages.ts
+export interface QuickReply {
+  id: string;
+  label: string;
+}
+
+// Content the AI tier answered from, see aiSources.ts
+export interface AISourceRef {
+  kind: 'rule' | 'article' | 'account';
+  id: string; // Rule ID, article ID or 'account'
+  title: string;
+  url?: string;
+}
+
+// A knowledge base article the bot answered with, see knowledgeBase.ts
+export interface KnowledgeMatch {
+  articleId: string;
+  title: string;
+  url?: string;
+  excerpt: string;
+  score: number; // BM25
+  confidence: number; // 0-1, share of the question found in the excerpt
+}
+
+export interface Message {
+  id?: string; // Set by the chat store; missing on messages stored before IDs
+  from: 'user' | 'agent' | 'bot' | 'system';
+  text: string;
+  timestamp: number;
+  agentId?: string;
+  agentName?: string;
+  fileUrl?: string;
+  fileName?: string;
+  fileType?: string;
+  telegram?: TelegramMessageRef[];
+  editedAt?: number;
+  deletedAt?: number; // Text and file are cleared when a message is deleted
+  buttons?: QuickReply[]; // Bot messages only
+  quickReply?: string; // ID of the quick reply the customer clicked to send this
+  knowledge?: KnowledgeMatch; // Article a bot message answered with
+  aiGenerated?: boolean; // Bot message written by the AI tier, see aiReply.ts
+  aiSources?: AISourceRef[]; // What an AI-generated message was based on
+}
+
+// Chat lifecycle, see chatLifecycle.ts
+//   open      - new chat, handled by the bot or an agent
+//   pending   - customer asked for a human and is waiting for an agent
+//   resolved  - closed by an agent (/close, close_chat, POST /close)
+//   closed    - closed after inactivity; archived in the store
+//   reopened  - customer wrote again after the chat was resolved or closed
+export type ChatStatus = 'open' | 'pending' | 'resolved' | 'closed' | 'reopened';
+
+export interface ChatState {
+  mode: 'bot' | 'human';
+  status: ChatStatus;
+  statusChangedAt?: number;
+  agentId?: string;
+  agentName?: string;
+  messages: Message[]; // Latest messages only, see retention.ts
+  messageCount?: number; // All messages, including ones trimmed from memory
+  source: 'web' | 'telegram';
+  requestingHuman?: boolean;
+  userFirstName?: string;
+  userLastName?: string;
+  userId?: string;
+  telegramUserId?: number; // Telegram user ID for customer bot
+  organizationName?: string; // Customer's organization, saved when agents are notified
+  createdAt: number;
+  lastActivityAt: number;
+  visited?: boolean; // Track if chat has been opened by an agent
+  lastReadAt?: number; // When an agent last read the chat, see chatSummary.ts
+  language?: Locale; // Language the bot answers in, see language.ts
+  languageSource?: 'client' | 'detected'; // Reported by Telegram or the widget, or guessed from text
+  flow?: FlowState; // Conversational flow the bot is running, see flows.ts
+  escalation?: EscalationState; // Counts that hand the chat to agents, see handoff.ts
+  handoffReason?: HandoffReason; // Why the chat last went to agents
+  queuedAt?: number; // Waiting for the team to be back on shift, see businessHours.ts
+}
+
+// A customer's organization and subscription, from user_profiles →
+// organization → subscriptions
+export interface CustomerAccount {
+  organizationName?: string;
+  plan?: string;
+  subscriptionStatus?: string;
+}
+
+// Why the bot handed a chat to agents, see handoff.ts
+export type HandoffReason =
+  | 'customer_request' // A handoff phrase, button or widget request
+  | 'flow' // A flow ended in a handoff
+  | 'repeated_fallback' // The bot fell back too many times in a row
+  | 'repeated_question'; // The same question too many times in a row
+
+export interface EscalationState {
+  fallbacks: number; // Fallback replies in a row
+  lastQuestion?: string; // Customer's last question, normalized
+  repeats: number; // Times lastQuestion was asked in a row
+}
+
+// Where a chat is in a bot flow
+export interface FlowState {
+  flowId: string;
+  stepId: string;
+  startedAt: number;
+  stepStartedAt: number; // The flow times out this long after the last step
+  answers: Record<string, string>; // Customer's answer to each step, by step ID
+  unclearAnswers: number; // Answers to the current step that matched no option
+}
+
+export type AgentRole = 'agent' | 'lead' | 'admin';
+
+// Support agent identity shared by notifications, takeover and reporting
+export interface Agent {
+  telegramId: number;
+  displayName: string;
+  dashboardUserId?: string; // Supabase user ID used by the dashboard
+  roles: AgentRole[];
+  active: boolean; // Inactive agents get no notifications
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+// How a rule's keywords are matched, see getAutoReplies.ts
+//   word  - whole words or phrases ("hi" does not match "this")
+//   regex - keywords are regular expressions
+//   fuzzy - whole words, allowing a typo or two in longer words
+export type AutoReplyMatchMode = 'word' | 'regex' | 'fuzzy';
+
+// Languages the bot speaks; 'en' is the default
+export type Locale = 'en' | 'uk' | 'pl';
+
+export interface AutoReplyTranslation {
+  keywords: string[]; // Matched like the rule's own keywords
+  reply: string;
+}
+
+// Canned bot answer, edited through /api/autoreplies, see autoReplyRules.ts
+export interface AutoReplyRule {
+  id: string;
+  keywords: string[]; // Case-insensitive; the rule matches if the text has one
+  excludeKeywords?: string[]; // The rule never matches text that has one
+  mode?: AutoReplyMatchMode; // Default 'word'
+  reply: string; // In English, and for chats without a translation; may have {{variables}}, see replyTemplates.ts
+  translations?: Partial<Record<Locale, AutoReplyTranslation>>;
+  enabled: boolean;
+  priority: number; // Among matching rules the highest wins, then the best score
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the bot did with a customer message, or a chat going to a human
+// ('handoff'), recorded for /api/analytics/bot, see botAnalytics.ts
+export type BotDecisionOutcome =
+  | 'rule' // An auto-reply rule answered
+  | 'flow' // A flow started or went on
+  | 'knowledge' // A knowledge base article answered
+  | 'ai' // The AI tier answered
+  | 'human_request' // The customer asked for an agent
+  | 'fallback' // Nothing matched
+  | 'handoff'; // The chat went to agents: requested, from a flow or taken over
+
+export interface BotDecision {
+  chatId: string;
+  source: 'web' | 'telegram';
+  outcome: BotDecisionOutcome;
+  ruleId?: string; // For 'rule'
+  flowId?: string; // For 'flow'
+  articleId?: string; // For 'knowledge'
+  reason?: HandoffReason; // For 'handoff' by the bot or customer; unset for takeovers
+  locale?: Locale; // The chat's language
+  at: number;
+}
+
+// One data-subject request handled by /api/privacy, see privacy.ts
+export interface PrivacyAuditRecord {
+  action: 'export' | 'erase';
+  subjectId: string; // userId or Telegram user ID from the request
+  requestedBy?: string;
+  requestedAt: number;
+  chatIds: string[];
+  messageCount: number;
+  fileCount: number;
+  outcome: 'completed' | 'failed';
+  error?: string;
+}
@@ -0,0 +1,129 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAgentRoster, parseAgentUpdate } from '../src/agentRoster.js';
+import { createAgentRouter } from '../src/agentRoutes.js';
+import { createDashboardAuth } from '../src/dashboardAuth.js';
+import { createChatStore } from '../src/store/chatStore.js';
+
+// The routes log as they work; on Node 20 that output can corrupt the
+// test runner's own stream
+mock.method(console, 'log', () => {});
+
+// Access tokens are the Supabase user IDs they stand for
+const supabase = {
+  auth: {
+    getUser: async (token: string) => ({
+      data: { user: token.startsWith('u-') ? { id: token } : null },
+      error: null,
+    }),
+  },
+} as unknown as SupabaseClient;
+
+// Sends a request and returns the status code
+type Send = (
+  method: string,
+  path: string,
+  token?: string,
+  body?: unknown
+) => Promise<number>;
+
+async function withServer(run: (request: Send) => Promise<void>) {
+  const store = createChatStore({ kind: 'memory' });
+  await store.load();
+  const roster = createAgentRoster(store);
+  roster.register(1, 'Agent');
+  roster.update(1, { dashboardUserId: 'u-agent' });
+  roster.register(2, 'Admin');
+  roster.update(2, { dashboardUserId: 'u-admin', roles: ['admin'] });
+
+  const auth = createDashboardAuth(supabase, roster, ['u-bootstrap']);
+  const app = express();
+  app.use(express.json());
+  app.use('/api/agents', createAgentRouter(roster, auth, () => {}));
+  // Guarded like the privacy routes in server.ts
+  app.get('/api/privacy/export/:userId', auth.requireRole('admin'), (req, res) => {
+    res.json({ ok: true });
+  });
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run(async (method, path, token, body) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method,
+        headers: {
+          'content-type': 'application/json',
+          ...(token && { authorization: `Bearer ${token}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return response.status;
+    });
+    assert.deepEqual(roster.get(1)?.roles, ['agent']);
+  } finally {
+    server.close();
+  }
+}
+
+test('an agent cannot make itself an admin and reach the privacy routes', () =>
+  withServer(async (request) => {
+    assert.equal(
+      await request('POST', '/api/agents', 'u-agent', {
+        telegramId: 1,
+        displayName: 'Agent',
+        dashboardUserId: 'u-agent',
+        roles: ['admin'],
+      }),
+      403
+    );
+    assert.equal(
+      await request('PATCH', '/api/agents/1', 'u-agent', { roles: ['admin'] }),
+      403
+    );
+    assert.equal(await request('GET', '/api/privacy/export/42', 'u-agent'), 403);
+
+    // Neither can someone whose login is not in the roster, or no one at all
+    assert.equal(
+      await request('POST', '/api/agents', 'u-stranger', {
+        telegramId: 3,
+        displayName: 'Stranger',
+        dashboardUserId: 'u-stranger',
+        roles: ['admin'],
+      }),
+      403
+    );
+    assert.equal(await request('GET', '/api/agents'), 401);
+  }));
+
+test('admins manage the roster; bootstrap admins need no roster entry', () =>
+  withServer(async (request) => {
+    assert.equal(await request('GET', '/api/agents', 'u-admin'), 200);
+    assert.equal(await request('GET', '/api/privacy/export/42', 'u-admin'), 200);
+    assert.equal(await request('GET', '/api/agents', 'u-bootstrap'), 200);
+    assert.equal(
+      await request('PATCH', '/api/agents/1', 'u-admin', { displayName: 'Ann' }),
+      200
+    );
+  }));
+
+test('only admins may set roles or the dashboard login', () => {
+  const agent = {
+    telegramId: 1,
+    displayName: 'Agent',
+    roles: ['agent' as const],
+    active: true,
+    createdAt: 0,
+    lastSeenAt: 0,
+  };
+  assert.ok('error' in parseAgentUpdate({ roles: ['admin'] }, agent));
+  assert.ok('error' in parseAgentUpdate({ dashboardUserId: 'u-1' }, agent));
+  assert.deepEqual(parseAgentUpdate({ displayName: ' Ann ' }, agent), {
+    changes: { displayName: 'Ann' },
+  });
+  assert.ok(
+    'changes' in parseAgentUpdate({ roles: ['lead'] }, { ...agent, roles: ['admin'] })
+  );
+});
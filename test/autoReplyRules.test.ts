@@ -0,0 +1,45 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAutoReplyRules } from '../src/autoReplyRules.js';
+import { createChatStore } from '../src/store/chatStore.js';
+
+// The rules and the store log as they work; on Node 20 that output can
+// corrupt the test runner's own stream
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+test('reloading keeps the rules of the memory store', async () => {
+  const rules = createAutoReplyRules(createChatStore({ kind: 'memory' }));
+  await rules.load();
+  const seeded = rules.list().length;
+  assert.ok(seeded > 0);
+  rules.create({ keywords: ['invoice'], reply: 'Invoices' });
+
+  await rules.reload();
+  assert.equal(rules.list().length, seeded + 1);
+});
+
+test('reloading picks up rules saved to a file store', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'autoreplies-'));
+  try {
+    const filePath = join(dir, 'chats.json');
+    const store = createChatStore({ kind: 'file', filePath });
+    const rules = createAutoReplyRules(store);
+    await rules.load();
+    const seeded = rules.list().length;
+
+    // Another process adds a rule to the same file
+    const other = createAutoReplyRules(store);
+    await other.load();
+    other.create({ keywords: ['invoice'], reply: 'Invoices' });
+    await store.flush();
+
+    await rules.reload();
+    assert.equal(rules.list().length, seeded + 1);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
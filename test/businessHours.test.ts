@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  describeBusinessHours,
+  isOpen,
+  nextOpening,
+  parseOpeningPeriods,
+  type BusinessHours,
+} from '../src/businessHours.js';
+
+function hours(schedule: string, timeZone = 'UTC', holidays: string[] = []) {
+  const result: BusinessHours = {
+    timeZone,
+    periods: parseOpeningPeriods(schedule),
+    holidays: new Set(holidays),
+  };
+  return result;
+}
+
+test('parses day ranges and lists', () => {
+  assert.deepEqual(parseOpeningPeriods('sat-mon 10:00-12:30'), [
+    { day: 0, start: 600, end: 750 },
+    { day: 1, start: 600, end: 750 },
+    { day: 6, start: 600, end: 750 },
+  ]);
+  assert.equal(parseOpeningPeriods('mon,wed 09:00-17:00').length, 2);
+  assert.throws(() => parseOpeningPeriods('mon 9-17'));
+  assert.throws(() => parseOpeningPeriods('mon 09:00-09:00'));
+  assert.throws(() => parseOpeningPeriods('xyz 09:00-17:00'));
+});
+
+test('a shift ending before it starts runs past midnight', () => {
+  assert.deepEqual(parseOpeningPeriods('sat 22:00-06:00'), [
+    { day: 0, start: 0, end: 360 },
+    { day: 6, start: 1320, end: 1440 },
+  ]);
+  const nights = hours('fri 22:00-06:00');
+  // 2026-10-23 is a Friday
+  assert.ok(isOpen(nights, Date.parse('2026-10-23T23:30:00Z')));
+  assert.ok(isOpen(nights, Date.parse('2026-10-24T05:59:00Z')));
+  assert.ok(!isOpen(nights, Date.parse('2026-10-24T06:00:00Z')));
+  assert.equal(
+    nextOpening(nights, Date.parse('2026-10-23T12:00:00Z')),
+    Date.parse('2026-10-23T22:00:00Z')
+  );
+});
+
+test('no schedule means always open', () => {
+  assert.ok(isOpen(hours('')));
+});
+
+test('open inside a period, closed outside and on holidays', () => {
+  const weekdays = hours('mon-fri 09:00-18:00', 'UTC', ['2026-12-25']);
+  // 2026-10-19 is a Monday
+  assert.ok(isOpen(weekdays, Date.parse('2026-10-19T09:00:00Z')));
+  assert.ok(!isOpen(weekdays, Date.parse('2026-10-19T18:00:00Z')));
+  assert.ok(!isOpen(weekdays, Date.parse('2026-10-18T12:00:00Z')));
+  assert.ok(!isOpen(weekdays, Date.parse('2026-12-25T12:00:00Z')));
+});
+
+test('uses the time zone', () => {
+  const kyiv = hours('mon-fri 09:00-18:00', 'Europe/Kyiv');
+  // 07:30 UTC is 10:30 in Kyiv (UTC+3 in October)
+  assert.ok(isOpen(kyiv, Date.parse('2026-10-19T07:30:00Z')));
+  assert.ok(!isOpen(kyiv, Date.parse('2026-10-19T15:30:00Z')));
+});
+
+test('next opening skips weekends and holidays, across a clock change', () => {
+  const kyiv = hours('mon-fri 09:00-18:00', 'Europe/Kyiv', ['2026-10-26']);
+  // Friday evening before the clocks go back on Sunday 2026-10-25
+  const opening = nextOpening(kyiv, Date.parse('2026-10-23T16:00:00Z'));
+  // Monday is a holiday, so Tuesday 09:00 at UTC+2
+  assert.equal(opening, Date.parse('2026-10-27T07:00:00Z'));
+});
+
+test('describes the weekly schedule', () => {
+  assert.equal(
+    describeBusinessHours(hours('mon-fri 09:00-18:00; sat 10:00-14:00'), 'en'),
+    'Mon–Fri 09:00–18:00, Sat 10:00–14:00 (UTC)'
+  );
+});
@@ -0,0 +1,39 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { shouldReopen } from '../src/chatLifecycle.js';
+import { createChatStore } from '../src/store/chatStore.js';
+import type { ChatState } from '../src/types.js';
+
+// The store logs as it works; on Node 20 that output can corrupt the
+// test runner's own stream
+mock.method(console, 'log', () => {});
+
+test('a chat closed before a restart can still be reopened', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'lifecycle-'));
+  try {
+    const filePath = join(dir, 'chats.json');
+    const store = createChatStore({ kind: 'file', filePath });
+    await store.load();
+    const chat = store.create('chat-1', {
+      messages: [],
+      mode: 'bot',
+      source: 'web',
+    } as unknown as ChatState);
+    chat.status = 'closed';
+    store.save('chat-1');
+    await store.flush();
+
+    // Closed chats are archived: not loaded on startup, but fetched on demand
+    const restarted = createChatStore({ kind: 'file', filePath });
+    await restarted.load();
+    assert.equal(restarted.has('chat-1'), false);
+    const fetched = await restarted.fetch('chat-1');
+    assert.ok(fetched && shouldReopen(fetched));
+    assert.equal(restarted.has('chat-1'), true);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,86 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createChatStore } from '../src/store/chatStore.js';
+import type { ChatState } from '../src/types.js';
+
+// The store logs as it works; on Node 20 that output can corrupt the
+// test runner's own stream
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+async function withFileStore(
+  run: (filePath: string) => Promise<void>
+): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'chatstore-'));
+  try {
+    await run(join(dir, 'chats.json'));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function newChat(): ChatState {
+  return { messages: [], mode: 'bot', source: 'web' } as unknown as ChatState;
+}
+
+test('memory keeps only the latest messages; findMessage reads back further', () =>
+  withFileStore(async (filePath) => {
+    const store = createChatStore({
+      kind: 'file',
+      filePath,
+      maxMessagesInMemory: 5,
+    });
+    await store.load();
+    store.create('chat-1', newChat());
+    for (let i = 1; i <= 450; i++) {
+      store.appendMessage('chat-1', {
+        from: 'user',
+        text: `message ${i}`,
+        timestamp: i,
+      });
+    }
+    await store.flush();
+
+    assert.equal(store.get('chat-1')?.messages.length, 5);
+    assert.equal(store.get('chat-1')?.messageCount, 450);
+    const first = await store.findMessage('chat-1', (m) => m.text === 'message 1');
+    assert.equal(first?.timestamp, 1);
+    assert.equal(
+      await store.findMessage('chat-1', (m) => m.text === 'missing'),
+      undefined
+    );
+
+    // A restart loads the latest messages only
+    const restarted = createChatStore({
+      kind: 'file',
+      filePath,
+      maxMessagesInMemory: 5,
+    });
+    await restarted.load();
+    const messages = restarted.get('chat-1')?.messages || [];
+    assert.deepEqual(
+      messages.map((m) => m.text),
+      ['message 446', 'message 447', 'message 448', 'message 449', 'message 450']
+    );
+  }));
+
+test('peek reads an evicted chat without bringing it back into memory', () =>
+  withFileStore(async (filePath) => {
+    const store = createChatStore({ kind: 'file', filePath });
+    await store.load();
+    store.create('chat-1', newChat());
+    store.appendMessage('chat-1', { from: 'user', text: 'hi', timestamp: 1 });
+    await store.flush();
+    store.evict('chat-1');
+
+    const chat = await store.peek('chat-1');
+    assert.equal(chat?.source, 'web');
+    assert.equal(store.has('chat-1'), false);
+    assert.deepEqual(
+      (await store.loadHistory('chat-1')).map((m) => m.text),
+      ['hi']
+    );
+  }));
@@ -0,0 +1,57 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFilePersistence } from '../src/store/fileChatStore.js';
+import type { ChatState } from '../src/types.js';
+
+// The store logs as it works; on Node 20 that output can corrupt the
+// test runner's own stream
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const chat = { messages: [], mode: 'bot', source: 'web' } as unknown as ChatState;
+
+test('a file that cannot be read is never overwritten', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'filestore-'));
+  try {
+    const filePath = join(dir, 'chats.json');
+    await writeFile(filePath, '{"chats": {"chat-1": ');
+    const persistence = createFilePersistence(filePath);
+
+    await assert.rejects(persistence.loadChats(0));
+    await assert.rejects(persistence.saveChat('chat-2', chat));
+    await assert.rejects(
+      persistence.appendMessage(
+        'chat-2',
+        { from: 'user', text: 'hi', timestamp: 1 },
+        chat
+      )
+    );
+    await assert.rejects(persistence.saveRouting({ agentChats: [], userChats: [] }));
+
+    assert.equal(await readFile(filePath, 'utf8'), '{"chats": {"chat-1": ');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('writes before the first read keep the stored chats', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'filestore-'));
+  try {
+    const filePath = join(dir, 'chats.json');
+    const first = createFilePersistence(filePath);
+    await first.saveChat('chat-1', chat);
+    await first.flush!();
+
+    const second = createFilePersistence(filePath);
+    await second.saveChat('chat-2', chat);
+    await second.flush!();
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8'));
+    assert.deepEqual(Object.keys(stored.chats).sort(), ['chat-1', 'chat-2']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
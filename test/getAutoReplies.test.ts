@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkRegexKeyword,
+  matchAutoReply,
+  setAutoReplies,
+} from '../src/getAutoReplies.js';
+
+const rules = [
+  {
+    id: 'pricing',
+    keywords: ['price', 'cost'],
+    reply: 'Our prices',
+    translations: { uk: { keywords: ['ціна'], reply: 'Наші ціни' } },
+  },
+  {
+    id: 'refund',
+    keywords: ['refund'],
+    excludeKeywords: ['policy'],
+    reply: 'Refunds',
+    priority: 5,
+  },
+  { id: 'hours', keywords: ['opening hours'], mode: 'fuzzy' as const, reply: 'Hours' },
+  { id: 'order', keywords: ['order #\\d+'], mode: 'regex' as const, reply: 'Order' },
+];
+
+test('matches whole words only', () => {
+  setAutoReplies(rules);
+  assert.equal(matchAutoReply('What is the price?')?.ruleId, 'pricing');
+  assert.equal(matchAutoReply('priceless advice'), null);
+});
+
+test('answers in the chat language when the rule is translated', () => {
+  setAutoReplies(rules);
+  const match = matchAutoReply('яка ціна?', 'uk');
+  assert.equal(match?.reply, 'Наші ціни');
+  assert.equal(match?.locale, 'uk');
+  assert.equal(matchAutoReply('price please', 'pl')?.reply, 'Our prices');
+});
+
+test('exclude keywords skip the rule', () => {
+  setAutoReplies(rules);
+  assert.equal(matchAutoReply('I want a refund')?.ruleId, 'refund');
+  assert.equal(matchAutoReply('what is your refund policy'), null);
+});
+
+test('priority beats score', () => {
+  setAutoReplies(rules);
+  assert.equal(matchAutoReply('price, cost and a refund')?.ruleId, 'refund');
+});
+
+test('fuzzy keywords allow typos', () => {
+  setAutoReplies(rules);
+  const match = matchAutoReply('what are your openng hours');
+  assert.equal(match?.ruleId, 'hours');
+  assert.equal(match?.matches[0].distance, 1);
+});
+
+test('regex keywords', () => {
+  setAutoReplies(rules);
+  assert.equal(matchAutoReply('where is ORDER #123')?.matches[0].found, 'ORDER #123');
+});
+
+test('regex keywords that could backtrack for long are refused', () => {
+  assert.doesNotThrow(() => checkRegexKeyword('order #\\d+'));
+  assert.doesNotThrow(() => checkRegexKeyword('(?:jan|feb)\\s\\d+'));
+  assert.throws(() => checkRegexKeyword('(a+)+$'), /repeats a group/);
+  assert.throws(() => checkRegexKeyword('((?:\\w*)\\s?)*x'), /repeats a group/);
+  for (const overlapping of ['(a|a)+$', '(a|aa)+$', '(\\w|\\d)+$', '((a|b))*']) {
+    assert.throws(() => checkRegexKeyword(overlapping), /repeats a group/);
+  }
+  assert.throws(() => checkRegexKeyword('x'.repeat(101)), /longer than/);
+
+  // A stored unsafe rule is skipped rather than run
+  setAutoReplies([
+    { id: 'bad', keywords: ['(a+)+$', '(a|aa)+$'], mode: 'regex', reply: 'Bad' },
+  ]);
+  assert.equal(matchAutoReply(`${'a'.repeat(40)}!`), null);
+});
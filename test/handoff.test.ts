@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isHumanRequest,
+  noteAnswer,
+  noteQuestion,
+  type HandoffPolicy,
+} from '../src/handoff.js';
+import type { ChatState } from '../src/types.js';
+
+const policy: HandoffPolicy = {
+  phrases: {
+    en: { exact: ['agent'], contains: ['talk to human'] },
+    uk: { exact: ['оператор'], contains: [] },
+    pl: { exact: [], contains: ['z konsultantem'] },
+  },
+  maxFallbacks: 2,
+  maxRepeats: 3,
+};
+
+function newChat(): ChatState {
+  return { messages: [], mode: 'bot', source: 'web' } as unknown as ChatState;
+}
+
+test('handoff phrases match in any language', () => {
+  assert.ok(isHumanRequest('  Agent ', policy));
+  assert.ok(isHumanRequest('I want to talk to human please', policy));
+  assert.ok(isHumanRequest('Оператор', policy));
+  assert.ok(isHumanRequest('chcę rozmawiać z konsultantem', policy));
+  assert.ok(!isHumanRequest('agent smith', policy));
+});
+
+test('the same question asked maxRepeats times escalates', () => {
+  const chat = newChat();
+  assert.equal(noteQuestion(chat, 'Where is my order?', policy), undefined);
+  assert.equal(noteQuestion(chat, 'where is my  order?', policy), undefined);
+  assert.equal(noteQuestion(chat, 'Where is my order?', policy), 'repeated_question');
+});
+
+test('a different question resets the count', () => {
+  const chat = newChat();
+  noteQuestion(chat, 'a', policy);
+  noteQuestion(chat, 'a', policy);
+  assert.equal(noteQuestion(chat, 'b', policy), undefined);
+  assert.equal(chat.escalation?.repeats, 1);
+});
+
+test('messages without text are not repeated questions', () => {
+  const chat = newChat();
+  for (let i = 0; i < policy.maxRepeats; i++) {
+    assert.equal(noteQuestion(chat, i % 2 ? '' : '  \n', policy), undefined);
+  }
+  assert.equal(chat.escalation, undefined);
+});
+
+test('escalates after maxFallbacks fallbacks in a row', () => {
+  const chat = newChat();
+  assert.equal(noteAnswer(chat, false, policy), undefined);
+  assert.equal(noteAnswer(chat, false, policy), undefined);
+  assert.equal(noteAnswer(chat, false, policy), 'repeated_fallback');
+});
+
+test('an answer resets the fallback count', () => {
+  const chat = newChat();
+  noteAnswer(chat, false, policy);
+  noteAnswer(chat, false, policy);
+  noteAnswer(chat, true, policy);
+  assert.equal(noteAnswer(chat, false, policy), undefined);
+});
+
+test('0 never escalates', () => {
+  const chat = newChat();
+  const never = { ...policy, maxFallbacks: 0, maxRepeats: 0 };
+  for (let i = 0; i < 5; i++) {
+    assert.equal(noteAnswer(chat, false, never), undefined);
+    assert.equal(noteQuestion(chat, 'same', never), undefined);
+  }
+});
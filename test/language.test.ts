@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLanguage, toLocale } from '../src/language.js';
+
+test('detects the language from letters and common words', () => {
+  assert.equal(detectLanguage('Привіт, як справи?'), 'uk');
+  assert.equal(detectLanguage('Dzień dobry'), 'pl');
+  assert.equal(detectLanguage('jak mam zapłacić'), 'pl');
+  assert.equal(detectLanguage('ile kosztuje'), 'pl');
+  assert.equal(detectLanguage('what is the price'), 'en');
+  assert.equal(detectLanguage('12345'), undefined);
+});
+
+test('words English shares with Polish do not tie an English message', () => {
+  assert.equal(detectLanguage('how to pay'), 'en');
+  assert.equal(detectLanguage('co to jest'), 'pl');
+});
+
+test('maps language tags to supported locales', () => {
+  assert.equal(toLocale('pl-PL'), 'pl');
+  assert.equal(toLocale('ua'), 'uk');
+  assert.equal(toLocale('de'), undefined);
+});
@@ -0,0 +1,54 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { sweepIdleChats } from '../src/retention.js';
+import { createChatStore, type ChatStore } from '../src/store/chatStore.js';
+import type { ChatState } from '../src/types.js';
+
+// The store logs as it works; on Node 20 that output can corrupt the
+// test runner's own stream
+mock.method(console, 'log', () => {});
+
+const policy = { idleTtlMs: 60 * 60 * 1000, maxMessagesInMemory: 0 };
+const longAgo = Date.now() - 2 * policy.idleTtlMs;
+
+function addIdleChat(store: ChatStore, chatId: string, fields = {}) {
+  store.create(chatId, {
+    messages: [],
+    mode: 'bot',
+    source: 'web',
+    lastActivityAt: longAgo,
+    ...fields,
+  } as unknown as ChatState);
+}
+
+test('queued chats and chats the routing maps point at are not evicted', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'retention-'));
+  try {
+    const store = createChatStore({ kind: 'file', filePath: join(dir, 'chats.json') });
+    await store.load();
+    addIdleChat(store, 'idle');
+    addIdleChat(store, 'queued', { queuedAt: longAgo });
+    addIdleChat(store, 'assigned', { mode: 'human' });
+    addIdleChat(store, 'recent', { lastActivityAt: Date.now() });
+
+    assert.equal(sweepIdleChats(store, policy, new Set(['assigned'])), 1);
+    assert.deepEqual(
+      store.entries().map(([chatId]) => chatId).sort(),
+      ['assigned', 'queued', 'recent']
+    );
+    await store.flush();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('the memory store never evicts, as it has nowhere to fetch from', async () => {
+  const store = createChatStore({ kind: 'memory' });
+  await store.load();
+  addIdleChat(store, 'idle');
+  assert.equal(sweepIdleChats(store, policy), 0);
+  assert.ok(store.has('idle'));
+});